@@ -0,0 +1,236 @@
+/**
+ * Alerting — one pipeline for everything on-call should hear about:
+ * degraded and recovered tool handlers, disconnected channels, failed
+ * token refreshes and quota exhaustion.
+ *
+ * Each alert goes to every configured sink (n8n, a Slack incoming
+ * webhook, a generic templated webhook, a local JSONL file). Repeats of
+ * the same event from the same source within ALERT_COOLDOWN_SECONDS are
+ * suppressed and counted; a "recovered" event ends the cooldown so the
+ * next failure alerts straight away.
+ */
+
+import { appendFileSync, existsSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const N8N_ALERT_WEBHOOK_URL = process.env.N8N_ALERT_WEBHOOK_URL || "";
+const SLACK_ALERT_WEBHOOK_URL = process.env.SLACK_ALERT_WEBHOOK_URL || "";
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || "";
+/** Body for ALERT_WEBHOOK_URL with {{field}} placeholders; the JSON alert if unset */
+const ALERT_WEBHOOK_TEMPLATE = process.env.ALERT_WEBHOOK_TEMPLATE || "";
+const ALERT_WEBHOOK_CONTENT_TYPE = process.env.ALERT_WEBHOOK_CONTENT_TYPE || "application/json";
+const ALERT_LOG_FILE = process.env.ALERT_LOG_FILE || "";
+const SERVER_URL = process.env.PUBLIC_URL || "";
+const COOLDOWN_MS = Number(process.env.ALERT_COOLDOWN_SECONDS || "900") * 1000;
+const SEND_TIMEOUT_MS = 10_000;
+
+const SEVERITIES = ["info", "warning", "critical"] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AlertSeverity = (typeof SEVERITIES)[number];
+
+export type AlertEvent =
+  | "degraded"
+  | "recovered"
+  | "channel_disconnected"
+  | "token_refresh_failed"
+  | "quota_budget_warning"
+  | "quota_exhausted";
+
+export interface Alert {
+  event: AlertEvent;
+  severity: AlertSeverity;
+  /** What the alert is about: a `tool:handler` key, `channel:<label>` or `youtube-quota` */
+  source: string;
+  message: string;
+  failureCount?: number;
+}
+
+/** An alert as delivered to sinks */
+export interface AlertRecord extends Alert {
+  timestamp: string;
+  serverUrl: string;
+  /** Repeats dropped by the cooldown since this source last alerted */
+  suppressed: number;
+}
+
+interface AlertSink {
+  name: string;
+  send(alert: AlertRecord): Promise<void>;
+}
+
+const MIN_SEVERITY: AlertSeverity = SEVERITIES.includes(process.env.ALERT_MIN_SEVERITY as AlertSeverity)
+  ? (process.env.ALERT_MIN_SEVERITY as AlertSeverity)
+  : "info";
+
+// ---------------------------------------------------------------------------
+// Sinks
+// ---------------------------------------------------------------------------
+
+async function postJson(url: string, body: string, contentType = "application/json"): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body,
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/** n8n keeps the payload shape its workflow was built on (tool/error), plus event and severity. */
+const n8nSink: AlertSink = {
+  name: "n8n",
+  send: (alert) =>
+    postJson(
+      N8N_ALERT_WEBHOOK_URL,
+      JSON.stringify({
+        event: alert.event,
+        severity: alert.severity,
+        tool: alert.source,
+        error: alert.message,
+        failureCount: alert.failureCount ?? 0,
+        suppressed: alert.suppressed,
+        timestamp: alert.timestamp,
+        serverUrl: alert.serverUrl,
+      }),
+    ),
+};
+
+const SLACK_ICONS: Record<AlertSeverity, string> = {
+  info: ":white_check_mark:",
+  warning: ":warning:",
+  critical: ":rotating_light:",
+};
+
+const slackSink: AlertSink = {
+  name: "slack",
+  send: (alert) => {
+    const repeats = alert.suppressed ? ` (${alert.suppressed} repeats suppressed)` : "";
+    return postJson(
+      SLACK_ALERT_WEBHOOK_URL,
+      JSON.stringify({
+        text:
+          `${SLACK_ICONS[alert.severity]} *${alert.event}* — \`${alert.source}\`${repeats}\n` +
+          `${alert.message}${alert.serverUrl ? `\n${alert.serverUrl}` : ""}`,
+      }),
+    );
+  },
+};
+
+/**
+ * Fill {{field}} placeholders. Values are JSON-string-escaped (without the
+ * quotes), so a template like {"text":"{{message}}"} stays valid JSON.
+ */
+function renderTemplate(template: string, alert: AlertRecord): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, field: string) => {
+    const value = (alert as unknown as Record<string, unknown>)[field];
+    return value === undefined ? "" : JSON.stringify(String(value)).slice(1, -1);
+  });
+}
+
+const webhookSink: AlertSink = {
+  name: "webhook",
+  send: (alert) =>
+    postJson(
+      ALERT_WEBHOOK_URL,
+      ALERT_WEBHOOK_TEMPLATE ? renderTemplate(ALERT_WEBHOOK_TEMPLATE, alert) : JSON.stringify(alert),
+      ALERT_WEBHOOK_CONTENT_TYPE,
+    ),
+};
+
+const fileSink: AlertSink = {
+  name: "file",
+  send: async (alert) => {
+    const dir = dirname(ALERT_LOG_FILE);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    appendFileSync(ALERT_LOG_FILE, JSON.stringify(alert) + "\n", "utf-8");
+  },
+};
+
+const sinks: AlertSink[] = [
+  N8N_ALERT_WEBHOOK_URL && n8nSink,
+  SLACK_ALERT_WEBHOOK_URL && slackSink,
+  ALERT_WEBHOOK_URL && webhookSink,
+  ALERT_LOG_FILE && fileSink,
+].filter((s): s is AlertSink => !!s);
+
+// ---------------------------------------------------------------------------
+// Dedup
+// ---------------------------------------------------------------------------
+
+/** Last delivery and suppressed repeats per `source|event` */
+const recent = new Map<string, { sentAt: number; suppressed: number }>();
+
+/** Sources with a problem alert that hasn't been followed by "recovered" */
+const openSources = new Set<string>();
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Deliver an alert to every sink, unless it is below ALERT_MIN_SEVERITY or
+ * repeats one sent within the cooldown. Best-effort: a failing sink is
+ * logged and never throws into the caller.
+ */
+export async function sendAlert(alert: Alert): Promise<void> {
+  if (SEVERITIES.indexOf(alert.severity) < SEVERITIES.indexOf(MIN_SEVERITY)) return;
+
+  const now = Date.now();
+  let suppressed = 0;
+  if (alert.event === "recovered") {
+    // Recovery ends every cooldown for the source
+    for (const key of recent.keys()) {
+      if (key.startsWith(`${alert.source}|`)) recent.delete(key);
+    }
+    openSources.delete(alert.source);
+  } else {
+    const key = `${alert.source}|${alert.event}`;
+    const last = recent.get(key);
+    if (last && now - last.sentAt < COOLDOWN_MS) {
+      last.suppressed += 1;
+      return;
+    }
+    suppressed = last?.suppressed ?? 0;
+    recent.set(key, { sentAt: now, suppressed: 0 });
+    openSources.add(alert.source);
+  }
+
+  const record: AlertRecord = {
+    ...alert,
+    timestamp: new Date(now).toISOString(),
+    serverUrl: SERVER_URL,
+    suppressed,
+  };
+  await Promise.all(
+    sinks.map((sink) =>
+      sink.send(record).catch((err) => {
+        console.error(`[alerts] Failed to send ${alert.event} alert to ${sink.name}:`, err);
+      }),
+    ),
+  );
+}
+
+/**
+ * Send a "recovered" alert for a source, but only if a problem alert went
+ * out for it since the last recovery — so routine successes stay quiet.
+ */
+export async function resolveAlert(source: string, message: string): Promise<void> {
+  if (!openSources.has(source)) return;
+  await sendAlert({ event: "recovered", severity: "info", source, message });
+}
+
+/**
+ * `.catch` handler for alerts sent without awaiting them, so a slow webhook
+ * never holds up a tool call or token refresh.
+ */
+export function logAlertError(err: unknown): void {
+  console.error("[alerts] Failed to send alert:", err);
+}
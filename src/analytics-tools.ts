@@ -1,8 +1,10 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ytFetch, YT_ANALYTICS_API } from "./write-tools.js";
+import { ytFetch, channelParam, YT_ANALYTICS_API } from "./write-tools.js";
 import { withResilience } from "./resilience.js";
-import { trimResponse } from "./trim.js";
+import { fieldsParam, detailParam } from "./trim.js";
+import { formatReport, formatTable, formatParam, totalsParam, decimalsParam, type ReportOptions } from "./report-format.js";
+import { bypassCacheParam } from "./cache.js";
 
 export function registerAnalyticsTools(server: McpServer): void {
   // ─── getDemographics ────────────────────────────────────────────────────────
@@ -19,10 +21,17 @@ export function registerAnalyticsTools(server: McpServer): void {
           .string()
           .optional()
           .describe("Filter by specific video ID (omit for channel-wide)"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    withResilience<{ startDate: string; endDate: string; videoId?: string }>(
+    withResilience<{ startDate: string; endDate: string; videoId?: string; channel?: string } & ReportOptions>(
       "getDemographics",
       [
         {
@@ -36,7 +45,7 @@ export function registerAnalyticsTools(server: McpServer): void {
             url.searchParams.set("endDate", args.endDate);
             if (args.videoId)
               url.searchParams.set("filters", `video==${args.videoId}`);
-            return trimResponse(await ytFetch(url.toString()));
+            return formatReport(await ytFetch(url.toString(), {}, args.channel), args);
           },
         },
       ],
@@ -63,6 +72,13 @@ export function registerAnalyticsTools(server: McpServer): void {
           .max(250)
           .default(25)
           .describe("Max countries to return (default 25)"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
@@ -71,7 +87,8 @@ export function registerAnalyticsTools(server: McpServer): void {
       endDate: string;
       videoId?: string;
       maxResults: number;
-    }>("getGeography", [
+      channel?: string;
+    } & ReportOptions>("getGeography", [
       {
         name: "analyticsApi",
         fn: async (args) => {
@@ -88,7 +105,7 @@ export function registerAnalyticsTools(server: McpServer): void {
           url.searchParams.set("maxResults", String(args.maxResults));
           if (args.videoId)
             url.searchParams.set("filters", `video==${args.videoId}`);
-          return trimResponse(await ytFetch(url.toString()));
+          return formatReport(await ytFetch(url.toString(), {}, args.channel), args);
         },
       },
     ]),
@@ -108,10 +125,17 @@ export function registerAnalyticsTools(server: McpServer): void {
           .string()
           .optional()
           .describe("Filter by specific video ID (omit for channel-wide)"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    withResilience<{ startDate: string; endDate: string; videoId?: string }>(
+    withResilience<{ startDate: string; endDate: string; videoId?: string; channel?: string } & ReportOptions>(
       "getTrafficSources",
       [
         {
@@ -129,7 +153,7 @@ export function registerAnalyticsTools(server: McpServer): void {
             url.searchParams.set("endDate", args.endDate);
             if (args.videoId)
               url.searchParams.set("filters", `video==${args.videoId}`);
-            return trimResponse(await ytFetch(url.toString()));
+            return formatReport(await ytFetch(url.toString(), {}, args.channel), args);
           },
         },
       ],
@@ -150,10 +174,17 @@ export function registerAnalyticsTools(server: McpServer): void {
           .string()
           .min(1)
           .describe("YouTube video ID (required)"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    withResilience<{ videoId: string }>("getRetentionCurve", [
+    withResilience<{ videoId: string; channel?: string } & ReportOptions>("getRetentionCurve", [
       {
         name: "analyticsApi",
         fn: async (args) => {
@@ -170,7 +201,7 @@ export function registerAnalyticsTools(server: McpServer): void {
             new Date().toISOString().slice(0, 10),
           );
           url.searchParams.set("filters", `video==${args.videoId}`);
-          return trimResponse(await ytFetch(url.toString()));
+          return formatReport(await ytFetch(url.toString(), {}, args.channel), args);
         },
       },
     ]),
@@ -183,14 +214,21 @@ export function registerAnalyticsTools(server: McpServer): void {
       description:
         "Analyze channel performance by day of week. Fetches daily metrics then " +
         "aggregates client-side into 7-day averages. Helps identify optimal publishing days. " +
-        "Returns an array of 7 objects with day name, sample count, and average metrics.",
+        "Returns 7 rows with day name, sample count, and average metrics.",
       inputSchema: {
         startDate: z.string().describe("Start date in YYYY-MM-DD format"),
         endDate: z.string().describe("End date in YYYY-MM-DD format"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    withResilience<{ startDate: string; endDate: string }>(
+    withResilience<{ startDate: string; endDate: string; channel?: string } & ReportOptions>(
       "getDayOfWeekAnalysis",
       [
         {
@@ -206,7 +244,7 @@ export function registerAnalyticsTools(server: McpServer): void {
             url.searchParams.set("startDate", args.startDate);
             url.searchParams.set("endDate", args.endDate);
 
-            const raw = (await ytFetch(url.toString())) as {
+            const raw = (await ytFetch(url.toString(), {}, args.channel)) as {
               rows?: Array<[string, number, number, number, number, number]>;
             };
 
@@ -242,7 +280,7 @@ export function registerAnalyticsTools(server: McpServer): void {
               b.shares += shares;
             }
 
-            return buckets.map((b, i) => ({
+            const days = buckets.map((b, i) => ({
               day: DAY_NAMES[i],
               daysInRange: b.count,
               avgViews: b.count ? Math.round(b.views / b.count) : 0,
@@ -259,6 +297,15 @@ export function registerAnalyticsTools(server: McpServer): void {
                 ? Math.round((b.shares / b.count) * 100) / 100
                 : 0,
             }));
+            return formatTable(
+              {
+                // daysInRange describes the bucket rather than measuring it, so it is not totalled
+                dimensions: ["day", "daysInRange"],
+                metrics: Object.keys(days[0]).filter((k) => k !== "day" && k !== "daysInRange"),
+                rows: days,
+              },
+              args,
+            );
           },
         },
       ],
@@ -275,10 +322,17 @@ export function registerAnalyticsTools(server: McpServer): void {
       inputSchema: {
         startDate: z.string().describe("Start date in YYYY-MM-DD format"),
         endDate: z.string().describe("End date in YYYY-MM-DD format"),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    withResilience<{ startDate: string; endDate: string }>(
+    withResilience<{ startDate: string; endDate: string; channel?: string } & ReportOptions>(
       "getContentTypeBreakdown",
       [
         {
@@ -293,7 +347,7 @@ export function registerAnalyticsTools(server: McpServer): void {
             );
             url.searchParams.set("startDate", args.startDate);
             url.searchParams.set("endDate", args.endDate);
-            return trimResponse(await ytFetch(url.toString()));
+            return formatReport(await ytFetch(url.toString(), {}, args.channel), args);
           },
         },
       ],
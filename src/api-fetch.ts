@@ -0,0 +1,86 @@
+/**
+ * Outgoing YouTube/Google HTTP calls with retries.
+ *
+ * Transient failures (429, 403 rateLimitExceeded, 5xx, network errors) are
+ * retried with jittered exponential backoff, honouring Retry-After.
+ * Non-idempotent requests (POST) are only retried when rate-limited, where
+ * Google has certainly not acted.
+ *
+ * Quota is charged once per call, not per attempt: a retry is the same
+ * logical request, and the ones we retry were mostly refused before any work.
+ */
+
+import { countedFetch } from "./metrics.js";
+import { chargeQuota } from "./quota.js";
+import { NetworkError, RateLimitedError, apiError, parseRetryAfter } from "./errors.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const MAX_RETRIES = Number(process.env.YOUTUBE_MAX_RETRIES || "3");
+const BASE_DELAY_MS = 500;
+/** Longest we will wait before a retry; a longer Retry-After fails fast instead */
+const MAX_DELAY_MS = 30_000;
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "DELETE"];
+
+// ---------------------------------------------------------------------------
+// Retry
+// ---------------------------------------------------------------------------
+
+/** Full jitter: a random delay up to the exponential step, so concurrent callers spread out. */
+function backoff(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 429, or a 403 whose reason is rateLimitExceeded/userRateLimitExceeded —
+ * Google's usual way of saying "slow down". Reads a clone, so the caller
+ * still gets an unread body.
+ */
+async function isRateLimited(res: Response): Promise<boolean> {
+  if (res.status === 429) return true;
+  if (res.status !== 403) return false;
+  return (await apiError(res.clone())) instanceof RateLimitedError;
+}
+
+/**
+ * fetch() with retries. Resolves with the last response (which may be an
+ * error status — use apiError() to classify it) or rejects with a
+ * NetworkError once retries are exhausted. Throws QuotaBudgetError,
+ * without sending, when the hard quota budget is spent.
+ */
+export async function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const idempotent = IDEMPOTENT_METHODS.includes((init.method ?? "GET").toUpperCase());
+  chargeQuota(url, init.method);
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < MAX_RETRIES;
+    let res: Response;
+    try {
+      res = await countedFetch(url, init);
+    } catch (err) {
+      if (!canRetry || !idempotent) {
+        throw new NetworkError(`Network error calling ${new URL(url).hostname}: ${err instanceof Error ? err.message : err}`);
+      }
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    if (!canRetry) return res;
+    const retryable = (res.status >= 500 && idempotent) || (await isRateLimited(res));
+    if (!retryable) return res;
+
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    if (retryAfter !== undefined && retryAfter > MAX_DELAY_MS) return res;
+    const delay = retryAfter ?? backoff(attempt);
+    console.error(`[api-fetch] ${res.status} from ${new URL(url).pathname}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+    await res.body?.cancel().catch(() => {});
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Audit log — an append-only JSONL record of every write tool call, so we
+ * can tell which client and session changed what on our channels.
+ *
+ * One line per call in DATA_DIR/audit.jsonl. Entries are never rewritten;
+ * reading filters the whole file, which is fine at our write volume.
+ */
+
+import { appendFileSync, readFileSync, existsSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { wrapToolCallbacks } from "./tool-registry.js";
+import { isWriteTool } from "./scopes.js";
+import { resolveChannel } from "./channels.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const AUDIT_FILE = join(DATA_DIR, "audit.jsonl");
+
+/** Results are truncated so one large API response can't bloat the log */
+const MAX_RESULT_CHARS = 2000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AuditEntry {
+  timestamp: string;
+  /** OAuth client ID, or "static" for MCP_AUTH_TOKEN */
+  clientId: string;
+  /** Mcp-Session-Id (or SSE session) the call arrived on */
+  sessionId: string | null;
+  tool: string;
+  args: Record<string, unknown>;
+  /** Channel ID the call acted as, resolved from the `channel` argument */
+  channel: string | null;
+  videoId: string | null;
+  commentId: string | null;
+  outcome: "ok" | "error";
+  result?: string;
+  error?: string;
+}
+
+export interface AuditFilter {
+  tool?: string;
+  videoId?: string;
+  commentId?: string;
+  clientId?: string;
+  /** ISO date/time, inclusive */
+  since?: string;
+  /** ISO date/time, exclusive */
+  until?: string;
+  limit?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+/** Append one entry. Best-effort: a full disk must not fail the write that already happened on YouTube. */
+export function appendAudit(entry: AuditEntry): void {
+  try {
+    if (!existsSync(DATA_DIR)) mkdirSync(DATA_DIR, { recursive: true });
+    appendFileSync(AUDIT_FILE, JSON.stringify(entry) + "\n", "utf-8");
+  } catch (err) {
+    console.error("[audit] Failed to append audit entry:", err, entry);
+  }
+}
+
+function channelFor(ref: unknown): string | null {
+  try {
+    const channel = resolveChannel(typeof ref === "string" ? ref : undefined);
+    return channel.id ?? (typeof ref === "string" ? ref : "default");
+  } catch {
+    return typeof ref === "string" ? ref : null;
+  }
+}
+
+function resultText(result: unknown): string {
+  const content = (result as { content?: Array<{ type: string; text?: string }> } | undefined)?.content;
+  const text = content?.map((c) => c.text ?? `[${c.type}]`).join("\n") ?? JSON.stringify(result);
+  return text.length > MAX_RESULT_CHARS ? text.slice(0, MAX_RESULT_CHARS) + "…" : text;
+}
+
+/** Record every write tool call made through this server. */
+export function applyAuditLog(server: McpServer, clientId: string): void {
+  wrapToolCallbacks(server, (tool, registered, callback) => {
+    if (!isWriteTool(tool, registered.annotations)) return callback;
+    // Tools without a `channel` parameter (e.g. resetToolHealth) don't act as any channel
+    const actsAsChannel = !!(registered.inputSchema as { shape?: Record<string, unknown> } | undefined)?.shape?.channel;
+    return async (...callArgs) => {
+      // Tools with an input schema get (args, extra); the extra always comes last
+      const args = (callArgs.length > 1 ? callArgs[0] : {}) as Record<string, unknown>;
+      const extra = callArgs[callArgs.length - 1] as { sessionId?: string } | undefined;
+      const entry: Omit<AuditEntry, "outcome"> = {
+        timestamp: new Date().toISOString(),
+        clientId,
+        sessionId: extra?.sessionId ?? null,
+        tool,
+        args,
+        channel: actsAsChannel ? channelFor(args.channel) : null,
+        videoId: typeof args.videoId === "string" ? args.videoId : null,
+        commentId:
+          typeof args.commentId === "string" ? args.commentId : typeof args.parentId === "string" ? args.parentId : null,
+      };
+      try {
+        const result = await callback(...callArgs);
+        const text = resultText(result);
+        appendAudit(
+          (result as { isError?: boolean })?.isError
+            ? { ...entry, outcome: "error", error: text }
+            : { ...entry, outcome: "ok", result: text },
+        );
+        return result;
+      } catch (err) {
+        appendAudit({ ...entry, outcome: "error", error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+/** Matching entries, newest first. */
+export function readAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+  if (!existsSync(AUDIT_FILE)) return [];
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+  const limit = filter.limit ?? 100;
+
+  const lines = readFileSync(AUDIT_FILE, "utf-8").split("\n");
+  const matches: AuditEntry[] = [];
+  for (let i = lines.length - 1; i >= 0 && matches.length < limit; i--) {
+    if (!lines[i]) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[i]) as AuditEntry;
+    } catch {
+      continue; // a torn line from a crash mid-append
+    }
+    const at = Date.parse(entry.timestamp);
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.videoId && entry.videoId !== filter.videoId) continue;
+    if (filter.commentId && entry.commentId !== filter.commentId) continue;
+    if (filter.clientId && entry.clientId !== filter.clientId) continue;
+    if (since !== undefined && at < since) continue;
+    if (until !== undefined && at >= until) continue;
+    matches.push(entry);
+  }
+  return matches;
+}
@@ -0,0 +1,350 @@
+/**
+ * Response cache for read-only YouTube/Google API calls.
+ *
+ * Planning sessions re-issue the same channels.list, videos.list and
+ * analytics queries many times; each one costs quota and latency. GET
+ * responses are kept for a per-endpoint TTL, and once an entry is stale
+ * its ETag is sent back as If-None-Match so an unchanged resource comes
+ * back as a cheap 304.
+ *
+ * YOUTUBE_CACHE selects the backend: "memory" (default), "disk" (memory
+ * plus DATA_DIR/cache/, so entries survive restarts) or "off". The cache
+ * is bounded by entry count and by total body size. Disk entries are sealed
+ * with DATA_ENCRYPTION_KEY (see secret-store.ts); without a key, responses
+ * fetched with a channel's OAuth token stay in memory only. A tool
+ * call with `bypassCache: true` skips cached entries and stores the fresh
+ * response; write tools invalidate the entries they affect.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync } from "node:fs";
+import { unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { apiFetch } from "./api-fetch.js";
+import { counter } from "./metrics.js";
+import { pacificDay } from "./quota.js";
+import { isEncryptionEnabled, readSecretFile, secretFileContents } from "./secret-store.js";
+import { wrapToolCallbacks } from "./tool-registry.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const CACHE_MODE = (process.env.YOUTUBE_CACHE || "memory").toLowerCase();
+const MAX_ENTRIES = Number(process.env.YOUTUBE_CACHE_MAX_ENTRIES || "500");
+/** Web scrape pages run to hundreds of KB, so the entry count alone does not bound memory */
+const MAX_BYTES = Number(process.env.YOUTUBE_CACHE_MAX_MB || "50") * 1024 * 1024;
+const PUBLIC_SCOPE = "public";
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const CACHE_DIR = join(DATA_DIR, "cache");
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Data API TTLs by resource; comments change fastest, search results slowest. */
+const DATA_API_TTLS: Record<string, number> = {
+  search: 30 * MINUTE,
+  channels: 10 * MINUTE,
+  videos: 5 * MINUTE,
+  playlistItems: 5 * MINUTE,
+  commentThreads: 1 * MINUTE,
+  comments: 1 * MINUTE,
+};
+const DEFAULT_TTL = 5 * MINUTE;
+
+/** Analytics for a range that ended this long ago is final and can be kept for days */
+const ANALYTICS_SETTLE_DAYS = 3;
+const ANALYTICS_OPEN_TTL = 30 * MINUTE;
+const ANALYTICS_CLOSED_TTL = 7 * DAY;
+
+/** Undocumented web endpoints used by discovery fallbacks */
+const HOST_TTLS: Record<string, number> = {
+  "suggestqueries.google.com": 1 * HOUR,
+  "www.youtube.com": 30 * MINUTE,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CacheEntry {
+  key: string;
+  body: string;
+  contentType: string;
+  etag?: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/** fetch() options plus `noStore` to always go to the network (e.g. a token health check) */
+export type CachedRequestInit = RequestInit & { noStore?: boolean };
+
+/** Optional `bypassCache` tool argument for read tools. */
+export const bypassCacheParam = z
+  .boolean()
+  .optional()
+  .describe("Skip cached API responses and fetch fresh data (default: false)");
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+const cacheLookups = counter(
+  "youtube_api_cache_total",
+  "Cacheable API requests by outcome (hit, revalidated, miss, bypass)",
+);
+
+// ---------------------------------------------------------------------------
+// TTLs
+// ---------------------------------------------------------------------------
+
+/** Days before today (Pacific) as YYYY-MM-DD. */
+function daysAgo(days: number): string {
+  return pacificDay(new Date(Date.now() - days * DAY));
+}
+
+function ttlFor(url: URL): number {
+  if (url.hostname === "youtubeanalytics.googleapis.com") {
+    const endDate = url.searchParams.get("endDate");
+    return endDate && endDate < daysAgo(ANALYTICS_SETTLE_DAYS) ? ANALYTICS_CLOSED_TTL : ANALYTICS_OPEN_TTL;
+  }
+  if (url.hostname === "www.googleapis.com" && url.pathname.startsWith("/youtube/v3/")) {
+    return DATA_API_TTLS[url.pathname.slice("/youtube/v3/".length)] ?? DEFAULT_TTL;
+  }
+  return HOST_TTLS[url.hostname] ?? DEFAULT_TTL;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/** Insertion-ordered, so the first key is the least recently used */
+const entries = new Map<string, CacheEntry>();
+/** Sum of the bodies in `entries` */
+let totalBytes = 0;
+
+function sizeOf(entry: CacheEntry): number {
+  return Buffer.byteLength(entry.body);
+}
+
+function entryFile(key: string): string {
+  return join(CACHE_DIR, createHash("sha256").update(key).digest("hex") + ".json");
+}
+
+/** Responses fetched with an API key are public; the rest were read with a channel's OAuth token */
+function isPublic(key: string): boolean {
+  return key.startsWith(`${PUBLIC_SCOPE} `);
+}
+
+/** Disk mode writes public entries, and the rest only when DATA_ENCRYPTION_KEY can seal them */
+function mayPersist(key: string): boolean {
+  return CACHE_MODE === "disk" && (isPublic(key) || isEncryptionEnabled());
+}
+
+/** Pending disk write or unlink per file, so operations on one entry land in order */
+const diskOps = new Map<string, Promise<void>>();
+
+function queueDiskOp(file: string, op: () => Promise<void>): void {
+  const next = (diskOps.get(file) ?? Promise.resolve()).then(op);
+  diskOps.set(file, next);
+  void next.finally(() => {
+    if (diskOps.get(file) === next) diskOps.delete(file);
+  });
+}
+
+function persist(entry: CacheEntry): void {
+  if (!mayPersist(entry.key)) return;
+  queueDiskOp(entryFile(entry.key), () =>
+    writeFile(entryFile(entry.key), secretFileContents(entry), { encoding: "utf-8", mode: 0o600 }).catch((err) => {
+      console.error("[cache] Failed to write cache entry:", err);
+    }),
+  );
+}
+
+function unlinkEntry(key: string): void {
+  if (CACHE_MODE !== "disk") return;
+  queueDiskOp(entryFile(key), () => unlink(entryFile(key)).catch(() => {}));
+}
+
+/** Take an entry out of the LRU map, leaving its file alone. */
+function detach(key: string): void {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  totalBytes -= sizeOf(entry);
+}
+
+/** Add an entry, or move it to the most recently used end, in memory only. */
+function insert(entry: CacheEntry): void {
+  detach(entry.key);
+  entries.set(entry.key, entry);
+  totalBytes += sizeOf(entry);
+}
+
+/** Drop an entry from memory and disk. */
+function remove(key: string): void {
+  detach(key);
+  unlinkEntry(key);
+}
+
+/** Drop least recently used entries until both limits hold. */
+function evict(): void {
+  while (entries.size > MAX_ENTRIES || totalBytes > MAX_BYTES) remove(entries.keys().next().value!);
+}
+
+function store(entry: CacheEntry): void {
+  // Bigger than the whole cache: keeping it would only evict everything else
+  if (sizeOf(entry) > MAX_BYTES) {
+    remove(entry.key);
+    return;
+  }
+  insert(entry);
+  persist(entry);
+  evict();
+}
+
+/** Load the disk cache once at startup. Expired entries are kept if they can still be revalidated. */
+function loadDiskCache(): void {
+  try {
+    if (!existsSync(CACHE_DIR)) mkdirSync(CACHE_DIR, { recursive: true });
+    const now = Date.now();
+    const loaded: CacheEntry[] = [];
+    for (const file of readdirSync(CACHE_DIR)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const entry = readSecretFile<CacheEntry>(join(CACHE_DIR, file));
+        if (entry) loaded.push(entry);
+      } catch {
+        // A torn write, or sealed with a key we no longer have — dropped by not being loaded
+        unlink(join(CACHE_DIR, file)).catch(() => {});
+      }
+    }
+    for (const entry of loaded.sort((a, b) => a.storedAt - b.storedAt)) {
+      // Private entries written before DATA_ENCRYPTION_KEY was removed are not kept in plaintext
+      if ((entry.expiresAt > now || entry.etag) && mayPersist(entry.key)) insert(entry);
+      else unlinkEntry(entry.key);
+    }
+    evict();
+  } catch (err) {
+    console.error("[cache] Failed to load disk cache:", err);
+  }
+}
+
+if (CACHE_MODE === "disk") loadDiskCache();
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(entry.body, {
+    status: 200,
+    headers: { "content-type": entry.contentType, ...(entry.etag && { etag: entry.etag }) },
+  });
+}
+
+/** The response's ETag header, or the `etag` field Data API bodies carry. */
+function etagOf(res: Response, body: string): string | undefined {
+  const header = res.headers.get("etag");
+  if (header) return header;
+  try {
+    const etag = (JSON.parse(body) as { etag?: unknown }).etag;
+    return typeof etag === "string" ? `"${etag.replace(/^"|"$/g, "")}"` : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Wait for pending disk cache writes, e.g. before exiting. */
+export async function settleCacheWrites(): Promise<void> {
+  await Promise.all(diskOps.values());
+}
+
+// ---------------------------------------------------------------------------
+// Bypass
+// ---------------------------------------------------------------------------
+
+const bypass = new AsyncLocalStorage<boolean>();
+
+/** Honour the `bypassCache` argument of every tool that declares it. */
+export function applyCacheControl(server: McpServer): void {
+  wrapToolCallbacks(server, (_tool, _registered, callback) => (...args) => {
+    const toolArgs = (args.length > 1 ? args[0] : undefined) as { bypassCache?: boolean } | undefined;
+    return toolArgs?.bypassCache ? bypass.run(true, () => callback(...args)) : callback(...args);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * apiFetch() through the cache. Only GETs are cached, and only 200s are
+ * stored. `scope` separates callers that see different data
+ * for the same URL — one per channel for OAuth calls.
+ */
+export async function cachedFetch(url: string, init: CachedRequestInit = {}, scope = PUBLIC_SCOPE): Promise<Response> {
+  const { noStore, ...rest } = init;
+  const method = (rest.method ?? "GET").toUpperCase();
+  if (CACHE_MODE === "off" || method !== "GET" || noStore) return apiFetch(url, rest);
+
+  const parsed = new URL(url);
+  // API keys stay out of cache keys (and out of the disk cache)
+  parsed.searchParams.delete("key");
+  const key = `${scope} ${parsed.toString()}`;
+  const skip = bypass.getStore() ?? false;
+  const now = Date.now();
+
+  const cached = entries.get(key);
+  if (cached && !skip && cached.expiresAt > now) {
+    cacheLookups.inc({ outcome: "hit" });
+    // Move to the most recently used end
+    insert(cached);
+    return toResponse(cached);
+  }
+
+  const headers = new Headers(rest.headers);
+  if (cached?.etag && !skip) headers.set("If-None-Match", cached.etag);
+  const res = await apiFetch(url, { ...rest, headers });
+
+  if (res.status === 304 && cached) {
+    cacheLookups.inc({ outcome: "revalidated" });
+    store({ ...cached, expiresAt: now + ttlFor(parsed) });
+    return toResponse(cached);
+  }
+  cacheLookups.inc({ outcome: skip ? "bypass" : "miss" });
+  if (res.status !== 200) return res;
+
+  const body = await res.text();
+  const entry: CacheEntry = {
+    key,
+    body,
+    contentType: res.headers.get("content-type") ?? "application/json",
+    etag: etagOf(res, body),
+    storedAt: now,
+    expiresAt: now + ttlFor(parsed),
+  };
+  store(entry);
+  return toResponse(entry);
+}
+
+/**
+ * Drop cached responses a write made stale: any entry whose URL mentions
+ * one of `ids` (video or comment IDs, in `id`, `videoId`, `parentId` or
+ * an analytics `video==` filter), and every entry for `resources` such as
+ * "commentThreads" whose listings can't be matched by ID.
+ */
+export function invalidateCache(match: { ids?: string[]; resources?: string[] }): number {
+  const ids = (match.ids ?? []).filter(Boolean);
+  const paths = (match.resources ?? []).map((r) => `/youtube/v3/${r}?`);
+  let dropped = 0;
+  for (const key of [...entries.keys()]) {
+    const url = key.slice(key.indexOf(" ") + 1);
+    const decoded = decodeURIComponent(url);
+    if (ids.some((id) => decoded.includes(id)) || paths.some((p) => url.includes(p))) {
+      remove(key);
+      dropped += 1;
+    }
+  }
+  return dropped;
+}
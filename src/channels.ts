@@ -0,0 +1,292 @@
+/**
+ * Channel registry — maps YouTube channel IDs, @handles and friendly aliases
+ * to the refresh token that acts as that channel.
+ *
+ * Sources, merged by channel ID (later wins field by field):
+ *   1. YOUTUBE_CHANNELS env var — JSON array of ChannelConfig
+ *   2. DATA_DIR/channels.json    — same shape, encrypted via the secret store
+ *
+ * A refresh token can be given inline (refreshToken) or by naming the env var
+ * that holds it (refreshTokenEnv), so secrets can stay in the deployment env.
+ *
+ * Channels connected through /connect/youtube are written to channels.json.
+ * Disconnected state is kept apart, in DATA_DIR/channel-disconnects.json,
+ * keyed by channel ID and refresh-token hash, so it never adds registry entries.
+ *
+ * Legacy deployments without a registry keep working: YOUTUBE_REFRESH_TOKEN
+ * becomes the default channel and YOUTUBE_REFRESH_TOKEN_HPL the "hpl" channel.
+ */
+
+import crypto from "node:crypto";
+import { join } from "node:path";
+import { readSecretFile, writeSecretFile } from "./secret-store.js";
+import { UnknownChannelError } from "./errors.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const CHANNELS_FILE = join(DATA_DIR, "channels.json");
+const DISCONNECTS_FILE = join(DATA_DIR, "channel-disconnects.json");
+
+/** Only used to seed the registry from the pre-registry YOUTUBE_REFRESH_TOKEN_HPL env var */
+const LEGACY_HPL_CHANNEL_ID = "UCYD_-2jbMxu0Lp65IlcGf5w";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ChannelConfig {
+  /** UC… channel ID. May be omitted for the legacy default channel until it is discovered. */
+  id?: string;
+  title?: string;
+  /** @handle, with or without the leading @ */
+  handle?: string;
+  aliases?: string[];
+  refreshToken?: string;
+  /** Name of an env var holding the refresh token */
+  refreshTokenEnv?: string;
+  /** Channel used when a tool is called without a channel */
+  default?: boolean;
+}
+
+/**
+ * Google rejected a channel's refresh token with invalid_grant. Recorded
+ * against that token's hash, so a new token (reconnect or env change) clears it.
+ */
+export interface ChannelDisconnect {
+  at: string;
+  reason: string;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+function parseChannels(raw: string, source: string): ChannelConfig[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) throw new Error("expected a JSON array");
+    return parsed as ChannelConfig[];
+  } catch (err) {
+    console.error(`[channels] Ignoring invalid ${source}:`, err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/** Throws if channels.json cannot be decrypted, rather than dropping every stored refresh token. */
+function loadFileChannels(): ChannelConfig[] {
+  const parsed = readSecretFile<unknown>(CHANNELS_FILE);
+  if (parsed === undefined) return [];
+  if (!Array.isArray(parsed)) {
+    console.error(`[channels] Ignoring invalid ${CHANNELS_FILE}: expected a JSON array`);
+    return [];
+  }
+  return parsed as ChannelConfig[];
+}
+
+function legacyChannels(): ChannelConfig[] {
+  const legacy: ChannelConfig[] = [];
+  if (process.env.YOUTUBE_REFRESH_TOKEN) {
+    legacy.push({ aliases: ["default"], refreshTokenEnv: "YOUTUBE_REFRESH_TOKEN", default: true });
+  }
+  if (process.env.YOUTUBE_REFRESH_TOKEN_HPL) {
+    legacy.push({
+      id: LEGACY_HPL_CHANNEL_ID,
+      title: "High Performance Longevity",
+      aliases: ["hpl"],
+      refreshTokenEnv: "YOUTUBE_REFRESH_TOKEN_HPL",
+    });
+  }
+  return legacy;
+}
+
+/** Merge entries that share a channel ID; entries without an ID are kept as-is. */
+function mergeChannels(...lists: ChannelConfig[][]): ChannelConfig[] {
+  const merged: ChannelConfig[] = [];
+  for (const entry of lists.flat()) {
+    const existing = entry.id ? merged.find((c) => c.id === entry.id) : undefined;
+    if (existing) Object.assign(existing, entry);
+    else merged.push({ ...entry });
+  }
+  return merged;
+}
+
+function buildRegistry(): ChannelConfig[] {
+  const configured = mergeChannels(
+    process.env.YOUTUBE_CHANNELS ? parseChannels(process.env.YOUTUBE_CHANNELS, "YOUTUBE_CHANNELS") : [],
+    loadFileChannels(),
+  );
+  // Legacy env vars only fill gaps: the default channel if none is set, and
+  // fields a registry entry for the same ID leaves out
+  const channels = [...configured];
+  for (const legacy of legacyChannels()) {
+    const existing = legacy.default ? configured.find((c) => c.default) : configured.find((c) => c.id === legacy.id);
+    if (!existing) channels.push(legacy);
+    else if (!legacy.default) {
+      const aliases = [...new Set([...(legacy.aliases ?? []), ...(existing.aliases ?? [])])];
+      Object.assign(existing, { ...legacy, ...existing, aliases });
+    }
+  }
+  if (channels.length > 0 && !channels.some((c) => c.default)) channels[0].default = true;
+  return channels;
+}
+
+let channels = buildRegistry();
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+function normaliseHandle(handle: string): string {
+  return handle.replace(/^@/, "").toLowerCase();
+}
+
+/** All registered channels. */
+export function listChannels(): ChannelConfig[] {
+  return channels;
+}
+
+/** The refresh token for a channel, or undefined if its env var is unset. */
+export function channelRefreshToken(channel: ChannelConfig): string | undefined {
+  if (channel.refreshToken) return channel.refreshToken;
+  return channel.refreshTokenEnv ? process.env[channel.refreshTokenEnv] || undefined : undefined;
+}
+
+/** A short label for logs and error messages. */
+export function channelLabel(channel: ChannelConfig): string {
+  const name = channel.title ?? channel.aliases?.[0] ?? (channel.handle && `@${normaliseHandle(channel.handle)}`);
+  if (name && channel.id) return `${name} (${channel.id})`;
+  return name ?? channel.id ?? "default channel";
+}
+
+/**
+ * Resolve a channel reference — UC… ID, @handle or alias, all case-insensitive
+ * except the ID. Omitting the reference selects the default channel.
+ *
+ * Anything else throws, unregistered UC… IDs included: quietly using the
+ * default channel would let a mistyped ID reply, moderate or edit as it.
+ */
+export function resolveChannel(ref?: string): ChannelConfig {
+  const fallback = channels.find((c) => c.default);
+  const trimmed = ref?.trim();
+  if (!trimmed) {
+    if (!fallback) throw new Error("No YouTube channels configured. Add one to the channel registry.");
+    return fallback;
+  }
+
+  const lower = trimmed.toLowerCase();
+  const match =
+    channels.find((c) => c.id === trimmed) ??
+    channels.find((c) => c.handle && normaliseHandle(c.handle) === normaliseHandle(trimmed)) ??
+    channels.find((c) => c.aliases?.some((a) => a.toLowerCase() === lower));
+  if (match) return match;
+
+  const known = channels.map((c) => c.aliases?.[0] ?? c.handle ?? c.id).filter(Boolean);
+  throw new UnknownChannelError(`Unknown channel "${trimmed}". Known channels: ${known.join(", ") || "none"}`);
+}
+
+// ---------------------------------------------------------------------------
+// Mutation
+// ---------------------------------------------------------------------------
+
+function saveFileChannels(fileChannels: ChannelConfig[]): void {
+  writeSecretFile(CHANNELS_FILE, fileChannels);
+}
+
+/**
+ * Store a freshly authorised channel in DATA_DIR/channels.json, replacing
+ * any previous refresh token for the same channel ID. Aliases are merged.
+ * Throws if the file cannot be written — the caller must tell the operator.
+ */
+export function saveChannel(entry: ChannelConfig & { id: string; refreshToken: string }): ChannelConfig {
+  const fileChannels = loadFileChannels();
+  const existing = fileChannels.find((c) => c.id === entry.id);
+  const aliases = [...new Set([...(existing?.aliases ?? []), ...(entry.aliases ?? [])])];
+  const updated: ChannelConfig = {
+    ...existing,
+    ...entry,
+    ...(aliases.length > 0 && { aliases }),
+  };
+  // Drop any env indirection so the new inline token is the one used
+  delete updated.refreshTokenEnv;
+
+  if (entry.default) {
+    // Registry entries from the env come first, so they must be overridden explicitly
+    for (const other of channels) {
+      if (other.id && other.id !== entry.id && other.default) {
+        const fileEntry = fileChannels.find((c) => c.id === other.id);
+        if (fileEntry) fileEntry.default = false;
+        else fileChannels.push({ id: other.id, default: false });
+      }
+    }
+  }
+
+  const next = existing ? fileChannels.map((c) => (c === existing ? updated : c)) : [...fileChannels, updated];
+  saveFileChannels(next);
+  channels = buildRegistry();
+  return resolveChannel(entry.id);
+}
+
+// ---------------------------------------------------------------------------
+// Disconnected state
+// ---------------------------------------------------------------------------
+
+function tokenHash(refreshToken: string): string {
+  return crypto.createHash("sha256").update(refreshToken).digest("hex").slice(0, 16);
+}
+
+/** Keyed by "<channel ID> <token hash>"; channels without an ID only track it in memory */
+const disconnects: Record<string, ChannelDisconnect> = loadDisconnects();
+
+function loadDisconnects(): Record<string, ChannelDisconnect> {
+  try {
+    return readSecretFile<Record<string, ChannelDisconnect>>(DISCONNECTS_FILE) ?? {};
+  } catch (err) {
+    // Losing it only means one more alert when the token is next rejected
+    console.error("[channels] Ignoring unreadable disconnected state:", err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+function disconnectKey(channel: ChannelConfig): string | undefined {
+  const token = channelRefreshToken(channel);
+  return token ? `${channel.id ?? ""} ${tokenHash(token)}` : undefined;
+}
+
+/** Why and when the channel's current refresh token was rejected, if it was. */
+export function channelDisconnect(channel: ChannelConfig): ChannelDisconnect | undefined {
+  const key = disconnectKey(channel);
+  return key ? disconnects[key] : undefined;
+}
+
+/** True if the channel's current refresh token is the one Google rejected. */
+export function isChannelDisconnected(channel: ChannelConfig): boolean {
+  return channelDisconnect(channel) !== undefined;
+}
+
+/**
+ * Record that Google rejected this channel's refresh token. Returns true only
+ * on the transition to disconnected, so callers alert once.
+ */
+export function markChannelDisconnected(channel: ChannelConfig, reason: string): boolean {
+  const key = disconnectKey(channel);
+  if (!key || disconnects[key]) return false;
+
+  // Only the current token matters; entries for the channel's older tokens can go
+  for (const old of Object.keys(disconnects)) {
+    if (old.startsWith(`${channel.id ?? ""} `)) delete disconnects[old];
+  }
+  disconnects[key] = { at: new Date().toISOString(), reason };
+  if (channel.id) {
+    // Persist so a restart does not re-alert
+    const persisted = Object.fromEntries(Object.entries(disconnects).filter(([k]) => !k.startsWith(" ")));
+    try {
+      writeSecretFile(DISCONNECTS_FILE, persisted);
+    } catch (err) {
+      console.error("[channels] Failed to persist disconnected state:", err);
+    }
+  }
+  return true;
+}
@@ -9,6 +9,9 @@ import { readFileSync, writeFileSync, appendFileSync, mkdirSync, existsSync } fr
 import { join } from "node:path";
 import { YT_API } from "./write-tools.js";
 import { withResilience } from "./resilience.js";
+import { cachedFetch, bypassCacheParam } from "./cache.js";
+import { shapeResponse, fieldsParam, detailParam, type ShapeOptions } from "./trim.js";
+import { apiError } from "./errors.js";
 
 const DATA_DIR = process.env.DATA_DIR || "/data";
 const CSV_PATH = join(DATA_DIR, "outlier-channels.csv");
@@ -26,7 +29,7 @@ function csvEscape(val: string): string {
 // Tool 1: getAutocompleteSuggestions
 // ---------------------------------------------------------------------------
 
-interface AutocompleteArgs {
+interface AutocompleteArgs extends ShapeOptions {
   query: string;
   language: string;
 }
@@ -34,7 +37,8 @@ interface AutocompleteArgs {
 /** Handler 1 — undocumented Google suggest endpoint (JSONP). */
 async function suggestEndpoint(args: AutocompleteArgs): Promise<unknown> {
   const url = `https://suggestqueries.google.com/complete/search?client=youtube&q=${encodeURIComponent(args.query)}&hl=${encodeURIComponent(args.language)}&ds=yt`;
-  const res = await fetch(url);
+  const res = await cachedFetch(url);
+  // Not a documented API: any error status means this handler is broken
   if (!res.ok) throw new Error(`Suggest endpoint returned ${res.status}`);
   const text = await res.text();
 
@@ -63,11 +67,8 @@ async function suggestEndpoint(args: AutocompleteArgs): Promise<unknown> {
 async function dataApiSearch(args: AutocompleteArgs): Promise<unknown> {
   const apiKey = process.env.YOUTUBE_API_KEY!;
   const url = `${YT_API}/search?part=snippet&q=${encodeURIComponent(args.query)}&type=video&maxResults=15&order=relevance&key=${apiKey}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    const err = (await res.json().catch(() => ({}))) as { error?: { message?: string } };
-    throw new Error(`YouTube API error (${res.status}): ${err?.error?.message ?? "unknown"}`);
-  }
+  const res = await cachedFetch(url);
+  if (!res.ok) throw await apiError(res);
   const data = (await res.json()) as { items?: { snippet: { title: string } }[] };
   const titles = (data.items ?? []).map((item) => item.snippet.title);
   if (titles.length === 0) throw new Error("No results from Data API search");
@@ -78,7 +79,7 @@ async function dataApiSearch(args: AutocompleteArgs): Promise<unknown> {
 /** Handler 3 — scrape youtube.com search results page for ytInitialData. */
 async function webScrape(args: AutocompleteArgs): Promise<unknown> {
   const url = `https://www.youtube.com/results?search_query=${encodeURIComponent(args.query)}`;
-  const res = await fetch(url, {
+  const res = await cachedFetch(url, {
     headers: {
       "User-Agent":
         "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
@@ -114,7 +115,7 @@ async function webScrape(args: AutocompleteArgs): Promise<unknown> {
 // Tool 2: findOutlierChannels
 // ---------------------------------------------------------------------------
 
-interface OutlierArgs {
+interface OutlierArgs extends ShapeOptions {
   niche: string;
   maxChannels: number;
   minSubscribers: number;
@@ -138,11 +139,8 @@ async function findOutliersHandler(args: OutlierArgs): Promise<unknown> {
 
   // Step 1: Search for channels
   const searchUrl = `${YT_API}/search?part=snippet&q=${encodeURIComponent(args.niche)}&type=channel&maxResults=${maxResults}&order=relevance&key=${apiKey}`;
-  const searchRes = await fetch(searchUrl);
-  if (!searchRes.ok) {
-    const err = (await searchRes.json().catch(() => ({}))) as { error?: { message?: string } };
-    throw new Error(`YouTube search error (${searchRes.status}): ${err?.error?.message ?? "unknown"}`);
-  }
+  const searchRes = await cachedFetch(searchUrl);
+  if (!searchRes.ok) throw await apiError(searchRes);
   const searchData = (await searchRes.json()) as {
     items?: { snippet: { channelId: string } }[];
   };
@@ -151,11 +149,8 @@ async function findOutliersHandler(args: OutlierArgs): Promise<unknown> {
 
   // Step 2: Get channel statistics in a single batch
   const statsUrl = `${YT_API}/channels?part=statistics,snippet&id=${channelIds.join(",")}&key=${apiKey}`;
-  const statsRes = await fetch(statsUrl);
-  if (!statsRes.ok) {
-    const err = (await statsRes.json().catch(() => ({}))) as { error?: { message?: string } };
-    throw new Error(`YouTube channels error (${statsRes.status}): ${err?.error?.message ?? "unknown"}`);
-  }
+  const statsRes = await cachedFetch(statsUrl);
+  if (!statsRes.ok) throw await apiError(statsRes);
   const statsData = (await statsRes.json()) as {
     items?: {
       id: string;
@@ -302,9 +297,9 @@ export function registerDiscoveryTools(server: McpServer): void {
   const autocompleteFn = withResilience<AutocompleteArgs>(
     "getAutocompleteSuggestions",
     [
-      { name: "suggestEndpoint", fn: suggestEndpoint },
-      { name: "dataApiSearch", fn: dataApiSearch },
-      { name: "webScrape", fn: webScrape },
+      { name: "suggestEndpoint", fn: async (args) => shapeResponse(await suggestEndpoint(args), args, "computed") },
+      { name: "dataApiSearch", fn: async (args) => shapeResponse(await dataApiSearch(args), args, "computed") },
+      { name: "webScrape", fn: async (args) => shapeResponse(await webScrape(args), args, "computed") },
     ],
   );
 
@@ -318,17 +313,20 @@ export function registerDiscoveryTools(server: McpServer): void {
       inputSchema: {
         query: z.string().min(1).describe("Search query to get suggestions for"),
         language: z.string().default("en").describe("Language code (default: en)"),
+        bypassCache: bypassCacheParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    async ({ query, language }) => {
-      return autocompleteFn({ query, language });
+    async ({ query, language, fields, detail }) => {
+      return autocompleteFn({ query, language, fields, detail });
     },
   );
 
   // ─── findOutlierChannels ────────────────────────────────────────────────────
   const outlierFn = withResilience<OutlierArgs>("findOutlierChannels", [
-    { name: "findOutliers", fn: findOutliersHandler },
+    { name: "findOutliers", fn: async (args) => shapeResponse(await findOutliersHandler(args), args, "computed") },
   ]);
 
   server.registerTool(
@@ -348,11 +346,14 @@ export function registerDiscoveryTools(server: McpServer): void {
           .number()
           .default(1000)
           .describe("Minimum subscriber count to include (default: 1000)"),
+        bypassCache: bypassCacheParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: false },
     },
-    async ({ niche, maxChannels, minSubscribers }) => {
-      return outlierFn({ niche, maxChannels, minSubscribers });
+    async ({ niche, maxChannels, minSubscribers, fields, detail }) => {
+      return outlierFn({ niche, maxChannels, minSubscribers, fields, detail });
     },
   );
 }
@@ -0,0 +1,133 @@
+/**
+ * Error types that callers need to tell apart from ordinary handler faults.
+ */
+
+const PUBLIC_URL = process.env.PUBLIC_URL || "";
+
+/**
+ * A channel's Google refresh token was revoked or expired (invalid_grant).
+ * Retrying cannot help — an operator has to reconnect the channel.
+ */
+export class ChannelDisconnectedError extends Error {
+  constructor(public readonly channel: string) {
+    super(
+      `YouTube channel ${channel} is disconnected: its refresh token was revoked or has expired. ` +
+        `Reconnect it at ${PUBLIC_URL}/connect/youtube.`,
+    );
+    this.name = "ChannelDisconnectedError";
+  }
+}
+
+/** A `channel` argument that names no registered channel. */
+export class UnknownChannelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnknownChannelError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// YouTube / Google API errors
+// ---------------------------------------------------------------------------
+
+/** A failed YouTube or Google API call, classified so callers can decide whether to retry or count it. */
+export class YouTubeApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status; undefined for network errors */
+    public readonly status?: number,
+    /** Google's error reason, e.g. "quotaExceeded" or "commentNotFound" */
+    public readonly reason?: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The project's daily Data API quota is spent; nothing helps until it resets. */
+export class QuotaExceededError extends YouTubeApiError {}
+
+/**
+ * Refused locally, before sending: the call would take today's estimated
+ * usage past YOUTUBE_QUOTA_HARD_BUDGET (see quota.ts).
+ */
+export class QuotaBudgetError extends QuotaExceededError {}
+
+/** 429 or a per-user rate limit; retrying later helps. */
+export class RateLimitedError extends YouTubeApiError {
+  constructor(message: string, status: number, reason?: string, public readonly retryAfterMs?: number) {
+    super(message, status, reason);
+  }
+}
+
+/** 401/403 — the token or key is not allowed to do this. */
+export class AuthError extends YouTubeApiError {}
+
+export class NotFoundError extends YouTubeApiError {}
+
+/** 400 — bad parameters from the caller, e.g. a malformed ID or date range. */
+export class InvalidArgumentError extends YouTubeApiError {}
+
+/** 5xx from Google. */
+export class ServerError extends YouTubeApiError {}
+
+/** The request never got an HTTP response. */
+export class NetworkError extends YouTubeApiError {}
+
+const QUOTA_REASONS = ["quotaExceeded", "dailyLimitExceeded"];
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Build the typed error for a non-OK response. Consumes the body. */
+export async function apiError(res: Response): Promise<YouTubeApiError> {
+  const text = await res.text().catch(() => "");
+  let message = text.slice(0, 500) || res.statusText;
+  let reason: string | undefined;
+  try {
+    const body = JSON.parse(text) as { error?: { message?: string; errors?: { reason?: string }[] } | string };
+    if (typeof body.error === "object") {
+      message = body.error.message ?? message;
+      reason = body.error.errors?.[0]?.reason;
+    } else if (typeof body.error === "string") {
+      reason = body.error;
+    }
+  } catch {
+    // Not JSON (e.g. an HTML error page) — keep the raw text
+  }
+
+  const msg = `YouTube API error (${res.status}): ${message}`;
+  const status = res.status;
+  if (reason && QUOTA_REASONS.includes(reason)) return new QuotaExceededError(msg, status, reason);
+  if (status === 429 || (reason && RATE_LIMIT_REASONS.includes(reason))) {
+    return new RateLimitedError(msg, status, reason, parseRetryAfter(res.headers.get("retry-after")));
+  }
+  if (status === 401 || status === 403) return new AuthError(msg, status, reason);
+  if (status === 404) return new NotFoundError(msg, status, reason);
+  if (status >= 500) return new ServerError(msg, status, reason);
+  if (status >= 400) return new InvalidArgumentError(msg, status, reason);
+  return new YouTubeApiError(msg, status, reason);
+}
+
+/**
+ * Caused by the caller's input (bad ID, invalid date range, unknown channel), so it must not
+ * count toward degrading the handler, and a fallback would fail the same way.
+ */
+export function isCallerError(err: unknown): boolean {
+  return err instanceof InvalidArgumentError || err instanceof NotFoundError || err instanceof UnknownChannelError;
+}
+
+/**
+ * Quota, throttling or permissions — not a fault in the handler's code, so
+ * not counted, but a fallback that doesn't need the same API access may work.
+ */
+export function isAccessError(err: unknown): boolean {
+  return err instanceof QuotaExceededError || err instanceof RateLimitedError || err instanceof AuthError;
+}
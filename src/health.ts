@@ -0,0 +1,91 @@
+/**
+ * Deep health check — everything on-call needs to tell a bad deploy apart
+ * from a revoked Google token or a spent quota. Served at /health/deep;
+ * the shallow /health stays cheap for the container health check.
+ */
+
+import { accessSync, constants, existsSync, mkdirSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { listChannels, channelLabel, channelRefreshToken, isChannelDisconnected } from "./channels.js";
+import { verifyChannelToken, tokenCacheStats, type TokenCacheStats } from "./youtube-token.js";
+import { listHandlerHealth } from "./resilience.js";
+import { quotaToday } from "./quota.js";
+import { ChannelDisconnectedError } from "./errors.js";
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+
+interface ChannelCheck {
+  channel: string;
+  status: "ok" | "missing" | "disconnected" | "error";
+  error?: string;
+}
+
+interface DegradedHandler {
+  key: string;
+  failures: number;
+  lastError?: string;
+  lastFailure?: string;
+}
+
+export interface DeepHealth {
+  /** error: a channel or DATA_DIR is broken; degraded: some handlers are degraded */
+  status: "ok" | "degraded" | "error";
+  checkedAt: string;
+  channels: ChannelCheck[];
+  tokenCache: TokenCacheStats[];
+  degradedHandlers: DegradedHandler[];
+  dataDir: { path: string; writable: boolean; error?: string };
+  quota: ReturnType<typeof quotaToday>;
+}
+
+async function checkChannels(): Promise<ChannelCheck[]> {
+  return Promise.all(
+    listChannels().map(async (channel): Promise<ChannelCheck> => {
+      const label = channelLabel(channel);
+      if (!channelRefreshToken(channel)) return { channel: label, status: "missing" };
+      if (isChannelDisconnected(channel)) return { channel: label, status: "disconnected" };
+      try {
+        await verifyChannelToken(channel);
+        return { channel: label, status: "ok" };
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        return { channel: label, status: err instanceof ChannelDisconnectedError ? "disconnected" : "error", error };
+      }
+    }),
+  );
+}
+
+/** Write and remove a probe file — a read-only or full volume fails here before it fails a tool. */
+function checkDataDir(): DeepHealth["dataDir"] {
+  const probe = join(DATA_DIR, `.health-${process.pid}`);
+  try {
+    if (!existsSync(DATA_DIR)) mkdirSync(DATA_DIR, { recursive: true });
+    accessSync(DATA_DIR, constants.W_OK);
+    writeFileSync(probe, "ok");
+    unlinkSync(probe);
+    return { path: DATA_DIR, writable: true };
+  } catch (err) {
+    return { path: DATA_DIR, writable: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function deepHealth(): Promise<DeepHealth> {
+  // Before the channel checks, which mint tokens of their own
+  const tokenCache = tokenCacheStats();
+  const channels = await checkChannels();
+  const degradedHandlers = Object.entries(listHandlerHealth())
+    .filter(([, h]) => h.degraded)
+    .map(([key, h]) => ({ key, failures: h.failures, lastError: h.lastError, lastFailure: h.lastFailure }));
+  const dataDir = checkDataDir();
+
+  const broken = !dataDir.writable || channels.some((c) => c.status === "error" || c.status === "disconnected");
+  return {
+    status: broken ? "error" : degradedHandlers.length ? "degraded" : "ok",
+    checkedAt: new Date().toISOString(),
+    channels,
+    tokenCache,
+    degradedHandlers,
+    dataDir,
+    quota: quotaToday(),
+  };
+}
@@ -0,0 +1,48 @@
+/** Minimal server-rendered pages for the browser-facing routes (consent, channel connect). */
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Wrap already-escaped body markup in a standalone HTML document. */
+export function renderPage(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 32rem; margin: 3rem auto; padding: 0 1rem; color: #222; }
+  h1 { font-size: 1.3rem; }
+  ul { padding-left: 1.2rem; }
+  code { background: #f3f3f3; padding: 0 .25rem; border-radius: 3px; }
+  .error { color: #b00020; }
+  .muted { color: #666; font-size: .9rem; }
+  input[type=password], input[type=text] { width: 100%; padding: .5rem; margin: .5rem 0 1rem; box-sizing: border-box; }
+  button { padding: .5rem 1.2rem; margin-right: .5rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>`;
+}
+
+/** Send a page that must never be framed or cached (it collects an operator password). */
+export function sendPage(res: any, status: number, title: string, body: string): void {
+  res.status(status);
+  res.set({
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+    "X-Frame-Options": "DENY",
+    "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors 'none'",
+  });
+  res.send(renderPage(title, body));
+}
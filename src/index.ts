@@ -1,119 +1,396 @@
 #!/usr/bin/env node
 import express from "express";
+import { randomUUID } from "node:crypto";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { setupOAuth } from "./oauth.js";
-
-// @ts-ignore — accessing unexported internals of @kirbah/mcp-youtube
-import { createMcpServer } from "@kirbah/mcp-youtube/dist/server.js";
-// @ts-ignore
-import { initializeContainer } from "@kirbah/mcp-youtube/dist/container.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { setupOAuth, isValidRedirectUri, type AuthInfo } from "./oauth.js";
+import { isGrantActive } from "./oauth-tokens.js";
+import { setupYouTubeConnect } from "./youtube-connect.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { registerWriteTools } from "./write-tools.js";
-import { registerAnalyticsTools } from "./analytics-tools.js";
-import { registerDiscoveryTools } from "./discovery-tools.js";
+import { parseScopes } from "./scopes.js";
+import { takeRequest, usageSnapshot } from "./rate-limit.js";
+import { gauge, renderMetrics } from "./metrics.js";
+import { appendAudit, readAuditLog } from "./audit.js";
+import { handlerHealthReport, resetHealth } from "./resilience.js";
+import { getProfile, listProfiles } from "./profiles.js";
+import { listConfiguredChannels } from "./youtube-token.js";
+import { buildServer, checkServerEnv } from "./server.js";
+import { deepHealth } from "./health.js";
+import { settleCacheWrites } from "./cache.js";
+import { runStdio } from "./stdio.js";
 
 const AUTH_TOKEN = process.env.MCP_AUTH_TOKEN;
-const API_KEY = process.env.YOUTUBE_API_KEY;
 const PORT = Number(process.env.PORT || "3000");
-
-if (!AUTH_TOKEN) {
-  console.error("ERROR: MCP_AUTH_TOKEN required");
-  process.exit(1);
-}
-if (!API_KEY) {
-  console.error("ERROR: YOUTUBE_API_KEY required");
-  process.exit(1);
-}
+/** Streamable HTTP sessions with no request for this long are closed */
+const SESSION_IDLE_MS = Number(process.env.MCP_SESSION_IDLE_TIMEOUT || "1800") * 1000;
 
 const oauthClientId = process.env.MCP_OAUTH_CLIENT_ID;
 const oauthClientSecret = process.env.MCP_OAUTH_CLIENT_SECRET;
 const publicUrl = process.env.PUBLIC_URL;
 
-if (!oauthClientId || !oauthClientSecret || !publicUrl) {
-  console.error("ERROR: MCP_OAUTH_CLIENT_ID, MCP_OAUTH_CLIENT_SECRET, and PUBLIC_URL are required");
-  process.exit(1);
+const redirectUris = process.env.MCP_OAUTH_REDIRECT_URIS?.split(",").map((u) => u.trim()).filter(Boolean);
+
+const defaultScopes = process.env.MCP_OAUTH_DEFAULT_SCOPE
+  ? parseScopes(process.env.MCP_OAUTH_DEFAULT_SCOPE)
+  : undefined;
+
+/** Exit on configuration only the HTTP server needs — stdio mode has no OAuth stack. */
+function checkHttpEnv(): void {
+  if (!AUTH_TOKEN) {
+    console.error("ERROR: MCP_AUTH_TOKEN required");
+    process.exit(1);
+  }
+  if (!publicUrl) {
+    console.error("ERROR: PUBLIC_URL required");
+    process.exit(1);
+  }
+  if (!oauthClientId !== !oauthClientSecret) {
+    console.error("ERROR: MCP_OAUTH_CLIENT_ID and MCP_OAUTH_CLIENT_SECRET must be set together");
+    process.exit(1);
+  }
+  if (process.env.MCP_OAUTH_DEFAULT_SCOPE && !defaultScopes) {
+    console.error("ERROR: MCP_OAUTH_DEFAULT_SCOPE contains an unknown scope");
+    process.exit(1);
+  }
+  const badRedirectUris = (redirectUris ?? []).filter((u) => !isValidRedirectUri(u));
+  if (badRedirectUris.length) {
+    console.error(
+      `ERROR: MCP_OAUTH_REDIRECT_URIS entries must be https URLs or http loopback URLs without a fragment: ${badRedirectUris.join(", ")}`,
+    );
+    process.exit(1);
+  }
+  const clientProfile = process.env.MCP_OAUTH_CLIENT_PROFILE;
+  if (clientProfile && !getProfile(clientProfile)) {
+    console.error(`ERROR: MCP_OAUTH_CLIENT_PROFILE must be one of: ${listProfiles().join(", ")}`);
+    process.exit(1);
+  }
 }
 
-async function main(): Promise<void> {
+/** The ?profile= query parameter. Sends a 400 and returns false if it names no profile. */
+function requestedProfile(req: express.Request, res: express.Response): string | undefined | false {
+  const profile = req.query.profile;
+  if (profile === undefined) return undefined;
+  if (typeof profile !== "string" || !getProfile(profile)) {
+    res.status(400).json({ error: `Unknown tool profile. Available: ${listProfiles().join(", ")}` });
+    return false;
+  }
+  return profile;
+}
+
+/** Count the request against the token's rate limit. Sends a 429 and returns true if it is over. */
+function rateLimited(auth: AuthInfo, res: express.Response): boolean {
+  const retryAfter = takeRequest(auth);
+  if (retryAfter === undefined) return false;
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ error: "Too many requests", retryAfter });
+  return true;
+}
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** The grant that initialized the session; later requests must come from it, since scopes are fixed at start */
+  auth: AuthInfo;
+  lastSeen: number;
+}
+
+async function startHttp(): Promise<void> {
+  checkServerEnv();
+  checkHttpEnv();
+
   const app = express();
+  // Behind a reverse proxy req.ip is the proxy's address (and the password
+  // limiter would lock everyone out at once) unless it is told what to trust
+  const trustProxy = process.env.MCP_TRUST_PROXY;
+  if (trustProxy) app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
   app.use(express.json());
   app.use(express.urlencoded({ extended: false }));
 
-  const { validateToken } = setupOAuth(app, {
-    clientId: oauthClientId!,
-    clientSecret: oauthClientSecret!,
+  const { validateToken, checkOperatorPassword, isAdmin } = setupOAuth(app, {
+    clientId: oauthClientId,
+    clientSecret: oauthClientSecret,
     publicUrl: publicUrl!,
     staticToken: AUTH_TOKEN,
+    clientProfile: process.env.MCP_OAUTH_CLIENT_PROFILE,
+    openRegistration: process.env.MCP_OAUTH_OPEN_REGISTRATION === "true",
+    defaultScopes,
+    redirectUris,
+    consentPassword: process.env.MCP_OAUTH_CONSENT_PASSWORD,
+    requireS256: process.env.MCP_OAUTH_REQUIRE_S256 === "true",
+    listChannels: listConfiguredChannels,
   });
 
+  setupYouTubeConnect(app, { publicUrl: publicUrl!, checkPassword: checkOperatorPassword });
+
+  // ─── Streamable HTTP transport ────────────────────────────────────────────
+  // Each session gets its own server, connected once when the session is
+  // initialized, so no two requests ever race on server.connect().
+  const sessions = new Map<string, McpSession>();
+  gauge("mcp_http_sessions", "Open Streamable HTTP sessions", () => [[{}, sessions.size]]);
+
+  setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        console.error(`[mcp] Session ${id} idle, closing`);
+        sessions.delete(id);
+        session.transport.close().catch(() => {});
+      }
+    }
+  }, 60_000);
+
+  /**
+   * Look up the session named by the Mcp-Session-Id header. Sends the error
+   * response and returns undefined if it is missing, unknown, or belongs to
+   * another grant — even one of the same client, which may hold other scopes.
+   */
+  function findSession(req: express.Request, res: express.Response, auth: AuthInfo): McpSession | undefined {
+    const sessionId = req.header("mcp-session-id");
+    if (!sessionId) {
+      res.status(400).json({ error: "Missing Mcp-Session-Id header" });
+      return undefined;
+    }
+    const session = sessions.get(sessionId);
+    if (!session) {
+      // 404 tells the client to start a new session
+      res.status(404).json({ error: "Unknown or expired session" });
+      return undefined;
+    }
+    if (session.auth.clientId !== auth.clientId || session.auth.grantId !== auth.grantId) {
+      res.status(403).json({ error: "Session belongs to another authorization" });
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
   app.post("/mcp", async (req, res) => {
-    if (!validateToken(req)) {
+    const auth = validateToken(req);
+    if (!auth) {
       res.status(401).json({ error: "Unauthorized" });
       return;
     }
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-      enableJsonResponse: true,
-    });
+    if (rateLimited(auth, res)) return;
+
     try {
-      // Create fresh server per request to avoid connect() race condition
-      const container = initializeContainer({ apiKey: API_KEY as string });
-      const server = createMcpServer(container) as McpServer;
-      registerWriteTools(server);
-      registerAnalyticsTools(server);
-      registerDiscoveryTools(server);
-      res.on("close", () => transport.close());
+      if (req.header("mcp-session-id")) {
+        const session = findSession(req, res, auth);
+        if (session) await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+      if (!isInitializeRequest(req.body)) {
+        res.status(400).json({ error: "No session: send an initialize request first" });
+        return;
+      }
+
+      const profile = requestedProfile(req, res);
+      if (profile === false) return;
+      const server = buildServer(auth, profile);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableJsonResponse: true,
+        onsessioninitialized: (sessionId) => {
+          sessions.set(sessionId, { transport, server, auth, lastSeen: Date.now() });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
       await server.connect(transport);
       await transport.handleRequest(req, res, req.body);
     } catch (err) {
       console.error("MCP request error:", err);
-      await transport.close().catch(() => {});
       if (!res.headersSent) {
         res.status(500).json({ error: "Internal server error" });
       }
     }
   });
 
+  // GET opens the session's stream for server-initiated messages; DELETE ends the session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const auth = validateToken(req);
+    if (!auth) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    const session = findSession(req, res, auth);
+    if (!session) return;
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (err) {
+      console.error("MCP request error:", err);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
   // ─── SSE transport (for Claude Code CLI) ──────────────────────────────────
-  const sseTransports = new Map<string, SSEServerTransport>();
+  const sseTransports = new Map<string, { transport: SSEServerTransport; auth: AuthInfo }>();
+  gauge("mcp_sse_sessions", "Open SSE sessions", () => [[{}, sseTransports.size]]);
 
   app.get("/sse", async (req, res) => {
-    if (!validateToken(req)) {
+    const auth = validateToken(req);
+    if (!auth) {
       res.status(401).json({ error: "Unauthorized" });
       return;
     }
+    if (rateLimited(auth, res)) return;
+    const profile = requestedProfile(req, res);
+    if (profile === false) return;
     const transport = new SSEServerTransport("/messages", res);
-    sseTransports.set(transport.sessionId, transport);
+    sseTransports.set(transport.sessionId, { transport, auth });
     res.on("close", () => {
       sseTransports.delete(transport.sessionId);
     });
-    const container = initializeContainer({ apiKey: API_KEY as string });
-    const server = createMcpServer(container) as McpServer;
-    registerWriteTools(server);
-    registerAnalyticsTools(server);
-    registerDiscoveryTools(server);
+    const server = buildServer(auth, profile);
     await server.connect(transport);
   });
 
   app.post("/messages", async (req, res) => {
     const sessionId = req.query.sessionId as string;
-    const transport = sseTransports.get(sessionId);
-    if (!transport) {
+    const sse = sseTransports.get(sessionId);
+    if (!sse) {
       res.status(400).json({ error: "Unknown session" });
       return;
     }
-    await transport.handlePostMessage(req, res, req.body);
+    // Every message is re-authorised, as on /mcp, so a revoked token loses an open stream too
+    if (sse.auth.grantId !== "static" && !isGrantActive(sse.auth.grantId)) {
+      sseTransports.delete(sessionId);
+      void sse.transport.close();
+      res.status(401).json({ error: "Authorization revoked" });
+      return;
+    }
+    const auth = validateToken(req);
+    if (!auth) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    if (auth.clientId !== sse.auth.clientId || auth.grantId !== sse.auth.grantId) {
+      res.status(403).json({ error: "Session belongs to another authorization" });
+      return;
+    }
+    if (rateLimited(sse.auth, res)) return;
+    await sse.transport.handlePostMessage(req, res, req.body);
+  });
+
+  app.get("/admin/usage", (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    res.json(usageSnapshot());
+  });
+
+  app.get("/admin/tool-health", (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    res.json(handlerHealthReport(typeof req.query.tool === "string" ? req.query.tool : undefined));
+  });
+
+  app.post("/admin/tool-health/reset", (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    const { tool, handler } = (req.body ?? {}) as { tool?: unknown; handler?: unknown };
+    if ((tool !== undefined && typeof tool !== "string") || (handler !== undefined && typeof handler !== "string")) {
+      res.status(400).json({ error: "tool and handler must be strings" });
+      return;
+    }
+    if (handler && !tool) {
+      res.status(400).json({ error: "handler requires tool" });
+      return;
+    }
+    const reset = resetHealth(tool, handler);
+    appendAudit({
+      timestamp: new Date().toISOString(),
+      clientId: "static",
+      sessionId: null,
+      tool: "resetToolHealth",
+      args: { ...(tool && { tool }), ...(handler && { handler }), via: "http" },
+      channel: null,
+      videoId: null,
+      commentId: null,
+      outcome: "ok",
+      result: `Reset ${reset.length} handler(s): ${reset.join(", ")}`,
+    });
+    res.json({ reset });
+  });
+
+  app.get("/admin/audit", (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    const q = req.query as Record<string, string | undefined>;
+    for (const key of ["since", "until"]) {
+      if (q[key] && Number.isNaN(Date.parse(q[key]!))) {
+        res.status(400).json({ error: `${key} must be an ISO date or date-time` });
+        return;
+      }
+    }
+    const limit = q.limit ? Number(q.limit) : undefined;
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      res.status(400).json({ error: "limit must be a positive integer" });
+      return;
+    }
+    res.json(
+      readAuditLog({
+        tool: q.tool,
+        videoId: q.videoId,
+        commentId: q.commentId,
+        clientId: q.clientId,
+        since: q.since,
+        until: q.until,
+        limit,
+      }),
+    );
   });
 
   app.get("/health", (_req, res) => res.json({ status: "ok" }));
 
+  app.get("/health/deep", async (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    try {
+      const health = await deepHealth();
+      res.status(health.status === "error" ? 503 : 200).json(health);
+    } catch (err) {
+      // A check that throws instead of reporting is itself a failed check
+      console.error("[health] Deep health check failed:", err);
+      res.status(503).json({ status: "error", error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+
+  // Prometheus scrape target; configure the scraper with the static token as bearer credentials
+  app.get("/metrics", (req, res) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
   app.listen(PORT, () => {
     console.error(`YouTube MCP server on http://0.0.0.0:${PORT}/mcp`);
   });
+
+  // Signals would kill the process without running "exit" hooks (e.g. the pending tool-health write)
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => void settleCacheWrites().finally(() => process.exit(0)));
+  }
 }
 
-main().catch((err) => {
+const start = process.argv.includes("--stdio") ? runStdio : startHttp;
+start().catch((err) => {
   console.error("Server error:", err);
   process.exit(1);
 });
@@ -0,0 +1,58 @@
+/**
+ * Batched JSON state files under DATA_DIR.
+ *
+ * State that changes on hot paths (tool health, quota usage) lives in
+ * memory and is written back in batches: a change marks the file dirty and
+ * schedules a write, and every change within the delay goes out together.
+ * Writes go through a temp file and a rename, so a crash mid-write never
+ * leaves a truncated file behind. Pending changes are flushed on exit.
+ */
+
+import { writeFileSync, renameSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface JsonFileWriter {
+  /** Mark the state changed and schedule a write, if one isn't already pending. */
+  save(): void;
+  /** Write pending changes now. */
+  flush(): void;
+}
+
+/**
+ * Persist the value returned by getValue() to path, at most once per
+ * delayMs. Persistence is best-effort: a failed write is logged under
+ * label and retried with the next change, never thrown.
+ */
+export function batchedJsonFile(path: string, getValue: () => unknown, delayMs: number, label: string): JsonFileWriter {
+  let dirty = false;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function flush(): void {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (!dirty) return;
+    dirty = false;
+    try {
+      const dir = dirname(path);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true }); // may throw if fs is read-only
+      const tmp = `${path}.${process.pid}.tmp`;
+      writeFileSync(tmp, JSON.stringify(getValue(), null, 2), "utf-8");
+      renameSync(tmp, path);
+    } catch (err) {
+      dirty = true;
+      console.error(`[${label}] Failed to persist ${path}:`, err);
+    }
+  }
+
+  function save(): void {
+    dirty = true;
+    if (flushTimer) return;
+    flushTimer = setTimeout(flush, delayMs);
+    flushTimer.unref();
+  }
+
+  // Don't lose the last batch on shutdown
+  process.on("exit", flush);
+
+  return { save, flush };
+}
@@ -0,0 +1,176 @@
+/**
+ * Prometheus metrics, rendered in the text exposition format at /metrics.
+ *
+ * Hand-rolled rather than pulling in prom-client: we only need counters,
+ * histograms and callback gauges. Modules declare the metrics they own
+ * (e.g. resilience.ts registers the degraded-handler gauge).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { wrapToolCallbacks } from "./tool-registry.js";
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+/** Stable key for a label set, so {a,b} and {b,a} land in the same series. */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export function counter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    inc(labels: Labels = {}, by = 1): void {
+      const key = seriesKey(labels);
+      const s = series.get(key);
+      if (s) s.value += by;
+      else series.set(key, { labels, value: by });
+    },
+  };
+}
+
+/** A gauge whose series are read from `collect` at scrape time. */
+export function gauge(name: string, help: string, collect: () => Array<[Labels, number]>): void {
+  metrics.push({
+    name,
+    help,
+    type: "gauge",
+    render: () => collect().map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`),
+  });
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export function histogram(name: string, help: string, buckets = DEFAULT_BUCKETS) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap((s) => [
+        ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`),
+        `${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`,
+        `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+        `${name}_count${formatLabels(s.labels)} ${s.count}`,
+      ]),
+  });
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      let s = series.get(key);
+      if (!s) {
+        s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, s);
+      }
+      // Buckets are cumulative: a value counts towards every bucket it fits in
+      buckets.forEach((le, i) => {
+        if (value <= le) s.counts[i] += 1;
+      });
+      s.sum += value;
+      s.count += 1;
+    },
+  };
+}
+
+/** All metrics in Prometheus text format (version 0.0.4). */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    let series: string[];
+    try {
+      series = metric.render();
+    } catch (err) {
+      // A broken gauge callback must not take the whole scrape down
+      console.error(`[metrics] Failed to collect ${metric.name}:`, err);
+      continue;
+    }
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...series);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Tool calls
+// ---------------------------------------------------------------------------
+
+const toolCalls = counter("mcp_tool_calls_total", "MCP tool calls by tool and outcome (ok, error)");
+const toolDuration = histogram("mcp_tool_call_duration_seconds", "MCP tool call latency in seconds");
+
+/** Count and time every tool call on the server. */
+export function instrumentTools(server: McpServer): void {
+  wrapToolCallbacks(server, (tool, _registered, callback) => async (...args) => {
+    const start = performance.now();
+    let outcome = "error";
+    try {
+      const result = await callback(...args);
+      if (!(result as { isError?: boolean } | undefined)?.isError) outcome = "ok";
+      return result;
+    } finally {
+      toolCalls.inc({ tool, outcome });
+      toolDuration.observe({ tool }, (performance.now() - start) / 1000);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Upstream API calls
+// ---------------------------------------------------------------------------
+
+const apiRequests = counter(
+  "youtube_api_requests_total",
+  "Outbound YouTube/Google API requests by endpoint and HTTP status (network_error if none)",
+);
+
+/** host + path, e.g. www.googleapis.com/youtube/v3/search — query strings would explode cardinality. */
+function apiEndpoint(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname + parsed.pathname;
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * fetch() that records the request in youtube_api_requests_total. Quota is
+ * charged by the caller (apiFetch), once per logical call rather than per attempt.
+ */
+export async function countedFetch(url: string, init?: RequestInit): Promise<Response> {
+  const endpoint = apiEndpoint(url);
+  try {
+    const res = await fetch(url, init);
+    apiRequests.inc({ endpoint, status: String(res.status) });
+    return res;
+  } catch (err) {
+    apiRequests.inc({ endpoint, status: "network_error" });
+    throw err;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Persistent store for MCP OAuth access and refresh tokens.
+ *
+ * Tokens are opaque random strings handed to clients; only their sha256
+ * hashes are kept in memory and in DATA_DIR/oauth-tokens.json, so the
+ * file on its own cannot be replayed. The file is additionally encrypted
+ * through the secret store. Refresh tokens rotate on every use; presenting
+ * one that was already rotated away revokes its whole grant (OAuth 2.1
+ * §4.3.1), since only a copied token can be replayed.
+ * Tokens can be revoked individually (RFC 7009) or a whole grant at a time.
+ */
+
+import crypto from "node:crypto";
+import { join } from "node:path";
+import { readSecretFile, writeSecretFile } from "./secret-store.js";
+import { SCOPES, type Scope } from "./scopes.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const TOKENS_FILE = join(DATA_DIR, "oauth-tokens.json");
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.MCP_OAUTH_ACCESS_TOKEN_TTL || "3600");
+const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.MCP_OAUTH_REFRESH_TOKEN_TTL || String(30 * 24 * 3600));
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface TokenRecord {
+  kind: "access" | "refresh";
+  clientId: string;
+  /** Shared by every token descending from one authorization — lets a grant be dropped as a unit */
+  grantId: string;
+  /** Missing on tokens issued before scopes existed — those had full access */
+  scopes?: Scope[];
+  issuedAt: number;
+  expiresAt: number;
+  lastUsedAt?: number;
+  /** Set on a refresh token once it is exchanged; kept until expiry so a replay can be spotted */
+  rotatedAt?: number;
+}
+
+export interface TokenPair {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  refresh_token: string;
+  scope: string;
+}
+
+export interface AccessTokenInfo {
+  clientId: string;
+  grantId: string;
+  scopes: Scope[];
+  expiresAt: number;
+}
+
+export interface TokenDetails {
+  kind: TokenRecord["kind"];
+  clientId: string;
+  grantId: string;
+  scopes: Scope[];
+  issuedAt: number;
+  expiresAt: number;
+  lastUsedAt?: number;
+}
+
+// ---------------------------------------------------------------------------
+// State persistence
+// ---------------------------------------------------------------------------
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function loadTokens(): Map<string, TokenRecord> {
+  return new Map(Object.entries(readSecretFile<Record<string, TokenRecord>>(TOKENS_FILE) ?? {}));
+}
+
+const tokens = loadTokens();
+
+/** lastUsedAt changes are flushed on the next prune instead of on every request */
+let usageDirty = false;
+
+function saveTokens(): void {
+  try {
+    writeSecretFile(TOKENS_FILE, Object.fromEntries(tokens));
+  } catch (err) {
+    // Persistence is best-effort — tokens stay valid in memory until restart.
+    console.error("[oauth] Failed to persist token store:", err);
+  }
+}
+
+/** Drop expired records and flush pending lastUsedAt updates. Returns true if anything was removed. */
+export function pruneExpiredTokens(): boolean {
+  const now = Date.now();
+  let removed = false;
+  for (const [hash, record] of tokens) {
+    if (record.expiresAt < now) {
+      tokens.delete(hash);
+      removed = true;
+    }
+  }
+  if (removed || usageDirty) {
+    usageDirty = false;
+    saveTokens();
+  }
+  return removed;
+}
+
+function toDetails(record: TokenRecord): TokenDetails {
+  return {
+    kind: record.kind,
+    clientId: record.clientId,
+    grantId: record.grantId,
+    scopes: record.scopes ?? [...SCOPES],
+    issuedAt: record.issuedAt,
+    expiresAt: record.expiresAt,
+    lastUsedAt: record.lastUsedAt,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Issue / validate / rotate
+// ---------------------------------------------------------------------------
+
+function addToken(
+  kind: TokenRecord["kind"],
+  clientId: string,
+  grantId: string,
+  scopes: Scope[],
+  ttlSeconds: number,
+): string {
+  const token = crypto.randomBytes(32).toString("hex");
+  const now = Date.now();
+  tokens.set(hashToken(token), {
+    kind,
+    clientId,
+    grantId,
+    scopes,
+    issuedAt: now,
+    expiresAt: now + ttlSeconds * 1000,
+  });
+  return token;
+}
+
+/** Issue a fresh access + refresh token pair. Pass grantId to continue an existing grant. */
+export function issueTokenPair(
+  clientId: string,
+  scopes: Scope[],
+  grantId: string = crypto.randomUUID(),
+): TokenPair {
+  const accessToken = addToken("access", clientId, grantId, scopes, ACCESS_TOKEN_TTL_SECONDS);
+  const refreshToken = addToken("refresh", clientId, grantId, scopes, REFRESH_TOKEN_TTL_SECONDS);
+  saveTokens();
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: scopes.join(" "),
+  };
+}
+
+/** Issue an access token alone, for clients that did not register the refresh_token grant. */
+export function issueAccessToken(clientId: string, scopes: Scope[]): Omit<TokenPair, "refresh_token"> {
+  const accessToken = addToken("access", clientId, crypto.randomUUID(), scopes, ACCESS_TOKEN_TTL_SECONDS);
+  saveTokens();
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    scope: scopes.join(" "),
+  };
+}
+
+/** Look up a live access token and record its use. Returns undefined for unknown, expired or refresh tokens. */
+export function findAccessToken(token: string): AccessTokenInfo | undefined {
+  const record = tokens.get(hashToken(token));
+  if (!record || record.kind !== "access" || record.expiresAt < Date.now()) return undefined;
+  record.lastUsedAt = Date.now();
+  usageDirty = true;
+  return {
+    clientId: record.clientId,
+    grantId: record.grantId,
+    scopes: record.scopes ?? [...SCOPES],
+    expiresAt: record.expiresAt,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new pair. The presented refresh token is
+ * consumed, and any access tokens still outstanding on the grant are dropped
+ * so only the newest pair is live. Pass scopes to narrow the grant; asking
+ * for anything the grant does not already hold fails. Presenting a refresh
+ * token that was already exchanged revokes the grant.
+ */
+export function rotateRefreshToken(
+  refreshToken: string,
+  clientId: string,
+  scopes?: Scope[],
+): TokenPair | undefined {
+  const hash = hashToken(refreshToken);
+  const record = tokens.get(hash);
+  if (!record || record.kind !== "refresh" || record.clientId !== clientId) return undefined;
+  if (record.expiresAt < Date.now()) {
+    tokens.delete(hash);
+    saveTokens();
+    return undefined;
+  }
+  if (record.rotatedAt) {
+    const removed = revokeGrant(record.grantId);
+    console.error(
+      `[oauth] Refresh token reused for client ${clientId}; revoked grant ${record.grantId} (${removed} tokens)`,
+    );
+    return undefined;
+  }
+
+  const granted = record.scopes ?? [...SCOPES];
+  if (scopes && !scopes.every((s) => granted.includes(s))) return undefined;
+
+  for (const [h, r] of tokens) {
+    if (r.grantId === record.grantId && !r.rotatedAt) tokens.delete(h);
+  }
+  tokens.set(hash, { ...record, rotatedAt: Date.now() });
+  return issueTokenPair(clientId, scopes ?? granted, record.grantId);
+}
+
+// ---------------------------------------------------------------------------
+// Introspection / revocation
+// ---------------------------------------------------------------------------
+
+/** Look up any live token (access or refresh) without marking it used. */
+export function inspectToken(token: string): TokenDetails | undefined {
+  const record = tokens.get(hashToken(token));
+  if (!record || record.rotatedAt || record.expiresAt < Date.now()) return undefined;
+  return toDetails(record);
+}
+
+/** Every live token, newest first. */
+export function listTokens(): TokenDetails[] {
+  const now = Date.now();
+  return [...tokens.values()]
+    .filter((r) => !r.rotatedAt && r.expiresAt >= now)
+    .map(toDetails)
+    .sort((a, b) => b.issuedAt - a.issuedAt);
+}
+
+/** True while the grant still holds a live token, i.e. it has been neither revoked nor left to expire. */
+export function isGrantActive(grantId: string): boolean {
+  const now = Date.now();
+  for (const record of tokens.values()) {
+    if (record.grantId === grantId && !record.rotatedAt && record.expiresAt > now) return true;
+  }
+  return false;
+}
+
+/** Drop every token on a grant. Returns the number of tokens removed. */
+export function revokeGrant(grantId: string): number {
+  let removed = 0;
+  for (const [hash, record] of tokens) {
+    if (record.grantId === grantId) {
+      tokens.delete(hash);
+      removed++;
+    }
+  }
+  if (removed > 0) saveTokens();
+  return removed;
+}
+
+/**
+ * Revoke a single token. Revoking a refresh token also kills the access
+ * tokens minted from it (RFC 7009 §2.1), so it drops the whole grant.
+ */
+export function revokeToken(token: string): void {
+  const hash = hashToken(token);
+  const record = tokens.get(hash);
+  if (!record) return;
+  if (record.kind === "refresh") {
+    revokeGrant(record.grantId);
+    return;
+  }
+  tokens.delete(hash);
+  saveTokens();
+}
@@ -1,30 +1,243 @@
 import crypto from "node:crypto";
+import { join } from "node:path";
+import { readSecretFile, writeSecretFile } from "./secret-store.js";
+import {
+  issueTokenPair,
+  issueAccessToken,
+  findAccessToken,
+  rotateRefreshToken,
+  pruneExpiredTokens,
+  inspectToken,
+  listTokens,
+  revokeToken,
+  revokeGrant,
+} from "./oauth-tokens.js";
+import { SCOPES, SCOPE_DESCRIPTIONS, parseScopes, type Scope } from "./scopes.js";
+import { escapeHtml, sendPage } from "./html.js";
+import { getProfile, listProfiles } from "./profiles.js";
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const CLIENTS_FILE = join(DATA_DIR, "oauth-clients.json");
 
 export interface OAuthConfig {
-  clientId: string;
-  clientSecret: string;
   publicUrl: string;
   staticToken?: string;
+  /** Optional pre-registered client from env (MCP_OAUTH_CLIENT_ID / MCP_OAUTH_CLIENT_SECRET) */
+  clientId?: string;
+  clientSecret?: string;
+  /** Tool profile for the env client */
+  clientProfile?: string;
+  /** Allow /register without an initial access token */
+  openRegistration?: boolean;
+  /** Scopes granted when /authorize is called without a scope parameter */
+  defaultScopes?: Scope[];
+  /** Redirect URI allowlist for the env client */
+  redirectUris?: string[];
+  /** Operator password for the consent page (the static token is always accepted too) */
+  consentPassword?: string;
+  /** Reject the plain PKCE method and require a code_challenge from every client */
+  requireS256?: boolean;
+  /** Labels for the connected YouTube channels, listed on the consent page */
+  listChannels?: () => string[];
+}
+
+/** Outcome of an operator password check; `retryAfter` (seconds) means the IP is locked out. */
+export type PasswordCheck = { ok: true } | { ok: false; retryAfter?: number };
+
+/** Who is behind a validated bearer token, and what it may do. */
+export interface AuthInfo {
+  clientId: string;
+  /** The authorization the token descends from, stable across refreshes; "static" for the static token */
+  grantId: string;
+  scopes: Scope[];
+  /** Tool profile pinned on the client, if any */
+  profile?: string;
 }
 
 interface StoredCode {
   clientId: string;
   redirectUri: string;
+  scopes: Scope[];
   codeChallenge?: string;
   codeChallengeMethod?: string;
   expiresAt: number;
 }
 
+type TokenEndpointAuthMethod = "client_secret_post" | "client_secret_basic" | "none";
+
+interface RegisteredClient {
+  clientId: string;
+  /** sha256 of the client secret — the secret itself is only returned once at registration */
+  clientSecretHash?: string;
+  clientName?: string;
+  redirectUris: string[];
+  tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+  /** Upper bound on what this client may request; absent means any scope */
+  scopes?: Scope[];
+  /** Tool profile every session of this client is limited to */
+  profile?: string;
+  /** Grant types registered; absent (clients registered before they were stored) means all of GRANT_TYPES */
+  grantTypes?: string[];
+  issuedAt: number;
+}
+
+const AUTH_METHODS: TokenEndpointAuthMethod[] = ["client_secret_post", "client_secret_basic", "none"];
+const GRANT_TYPES = ["authorization_code", "refresh_token"];
+const AUTHORIZE_PARAMS = [
+  "client_id",
+  "redirect_uri",
+  "response_type",
+  "state",
+  "scope",
+  "code_challenge",
+  "code_challenge_method",
+];
+
+/** Wrong operator passwords allowed per IP within the window before further attempts are refused */
+const PASSWORD_MAX_FAILURES = 5;
+const PASSWORD_WINDOW_MS = 15 * 60 * 1000;
+
+/** Claude.ai's OAuth callbacks — the env client's allowlist when MCP_OAUTH_REDIRECT_URIS is unset */
+const DEFAULT_ENV_REDIRECT_URIS = [
+  "https://claude.ai/api/mcp/auth_callback",
+  "https://claude.com/api/mcp/auth_callback",
+];
+
+// ---------------------------------------------------------------------------
+// Client registry persistence
+// ---------------------------------------------------------------------------
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function allowsGrant(client: RegisteredClient, grantType: string): boolean {
+  return (client.grantTypes ?? GRANT_TYPES).includes(grantType);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+/** Throws if the registry exists but cannot be decrypted — better than silently forgetting every client. */
+function loadClients(): Map<string, RegisteredClient> {
+  const raw = readSecretFile<RegisteredClient[]>(CLIENTS_FILE) ?? [];
+  return new Map(raw.map((c) => [c.clientId, c]));
+}
+
+function saveClients(clients: Map<string, RegisteredClient>): void {
+  try {
+    writeSecretFile(CLIENTS_FILE, [...clients.values()]);
+  } catch (err) {
+    console.error("[oauth] Failed to persist client registry:", err);
+  }
+}
+
+/** Accepts https URLs, plus http only for loopback redirects (native apps, RFC 8252). */
+export function isValidRedirectUri(uri: unknown): uri is string {
+  if (typeof uri !== "string") return false;
+  try {
+    const url = new URL(uri);
+    if (url.hash) return false;
+    if (url.protocol === "https:") return true;
+    return url.protocol === "http:" && ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
 export function setupOAuth(app: any, config: OAuthConfig) {
   const authCodes = new Map<string, StoredCode>();
-  const accessTokens = new Set<string>();
+  const CHALLENGE_METHODS = config.requireS256 ? ["S256"] : ["S256", "plain"];
+
+  // Registered clients are persisted; the env-configured client is layered on top
+  // at startup and never written to disk.
+  const clients = loadClients();
+  const envClient: RegisteredClient | undefined =
+    config.clientId && config.clientSecret
+      ? {
+          clientId: config.clientId,
+          clientSecretHash: sha256(config.clientSecret),
+          clientName: "env",
+          redirectUris: config.redirectUris?.length ? config.redirectUris : DEFAULT_ENV_REDIRECT_URIS,
+          tokenEndpointAuthMethod: "client_secret_post",
+          profile: config.clientProfile,
+          issuedAt: 0,
+        }
+      : undefined;
+
+  function getClient(clientId: unknown): RegisteredClient | undefined {
+    if (typeof clientId !== "string" || !clientId) return undefined;
+    if (envClient && clientId === envClient.clientId) return envClient;
+    return clients.get(clientId);
+  }
+
+  /**
+   * Exact match against the client's allowlist, except that loopback
+   * redirects may use any port (RFC 8252 §7.3) since native apps pick one at runtime.
+   */
+  function redirectAllowed(client: RegisteredClient, redirectUri: string): boolean {
+    if (client.redirectUris.includes(redirectUri)) return true;
+    const requested = new URL(redirectUri);
+    if (requested.protocol !== "http:") return false;
+    return client.redirectUris.some((allowed) => {
+      const url = new URL(allowed);
+      return (
+        url.protocol === "http:" &&
+        url.hostname === requested.hostname &&
+        url.pathname === requested.pathname &&
+        url.search === requested.search
+      );
+    });
+  }
+
+  /** Extract client credentials from client_secret_basic or client_secret_post. */
+  function clientCredentials(req: any): { clientId?: string; clientSecret?: string } {
+    const auth = req.headers.authorization as string | undefined;
+    if (auth && /^Basic\s+/i.test(auth)) {
+      const decoded = Buffer.from(auth.replace(/^Basic\s+/i, ""), "base64").toString("utf-8");
+      const idx = decoded.indexOf(":");
+      if (idx !== -1) {
+        return {
+          clientId: decodeURIComponent(decoded.slice(0, idx)),
+          clientSecret: decodeURIComponent(decoded.slice(idx + 1)),
+        };
+      }
+    }
+    return { clientId: req.body?.client_id, clientSecret: req.body?.client_secret };
+  }
 
-  // Cleanup expired auth codes periodically
+  function authenticateClient(req: any): RegisteredClient | undefined {
+    const { clientId, clientSecret } = clientCredentials(req);
+    const client = getClient(clientId);
+    if (!client) return undefined;
+    if (client.tokenEndpointAuthMethod === "none") return client;
+    if (!clientSecret || !client.clientSecretHash) return undefined;
+    return safeEqual(sha256(clientSecret), client.clientSecretHash) ? client : undefined;
+  }
+
+  /** Admin endpoints accept only the static token */
+  function isAdmin(req: any): boolean {
+    const auth = (req.headers.authorization as string | undefined) ?? "";
+    const token = auth.replace(/^Bearer\s+/i, "");
+    return !!config.staticToken && !!token && safeEqual(token, config.staticToken);
+  }
+
+  /** Timestamps of wrong operator passwords per client IP */
+  const passwordFailures = new Map<string, number[]>();
+
+  // Cleanup expired auth codes, tokens and password failures periodically
   setInterval(() => {
     const now = Date.now();
     for (const [code, stored] of authCodes) {
       if (stored.expiresAt < now) authCodes.delete(code);
     }
+    for (const [ip, failures] of passwordFailures) {
+      if (failures[failures.length - 1] < now - PASSWORD_WINDOW_MS) passwordFailures.delete(ip);
+    }
+    pruneExpiredTokens();
   }, 60_000);
 
   // MCP Protected Resource Metadata
@@ -32,6 +245,7 @@ export function setupOAuth(app: any, config: OAuthConfig) {
     res.json({
       resource: `${config.publicUrl}/mcp`,
       authorization_servers: [config.publicUrl],
+      scopes_supported: SCOPES,
       bearer_methods_supported: ["header"],
     });
   });
@@ -42,59 +256,338 @@ export function setupOAuth(app: any, config: OAuthConfig) {
       issuer: config.publicUrl,
       authorization_endpoint: `${config.publicUrl}/authorize`,
       token_endpoint: `${config.publicUrl}/token`,
+      registration_endpoint: `${config.publicUrl}/register`,
+      revocation_endpoint: `${config.publicUrl}/revoke`,
+      revocation_endpoint_auth_methods_supported: AUTH_METHODS,
+      introspection_endpoint: `${config.publicUrl}/introspect`,
+      introspection_endpoint_auth_methods_supported: AUTH_METHODS,
+      scopes_supported: SCOPES,
       response_types_supported: ["code"],
-      grant_types_supported: ["authorization_code"],
-      code_challenge_methods_supported: ["S256", "plain"],
-      token_endpoint_auth_methods_supported: ["client_secret_post"],
+      grant_types_supported: GRANT_TYPES,
+      code_challenge_methods_supported: CHALLENGE_METHODS,
+      token_endpoint_auth_methods_supported: AUTH_METHODS,
     });
   });
 
-  // Authorization endpoint — auto-approves for configured client
-  app.get("/authorize", (req: any, res: any) => {
-    const { client_id, redirect_uri, response_type, state, code_challenge, code_challenge_method } =
-      req.query as Record<string, string>;
+  // Dynamic Client Registration (RFC 7591)
+  app.post("/register", (req: any, res: any) => {
+    if (!config.openRegistration && !isAdmin(req)) {
+      res.status(401).json({
+        error: "invalid_token",
+        error_description: "Registration requires an initial access token",
+      });
+      return;
+    }
 
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const redirectUris = body.redirect_uris;
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0 || !redirectUris.every(isValidRedirectUri)) {
+      res.status(400).json({
+        error: "invalid_redirect_uri",
+        error_description: "redirect_uris must be a non-empty array of https (or loopback http) URLs",
+      });
+      return;
+    }
+
+    const authMethod = (body.token_endpoint_auth_method ?? "client_secret_post") as TokenEndpointAuthMethod;
+    if (!AUTH_METHODS.includes(authMethod)) {
+      res.status(400).json({
+        error: "invalid_client_metadata",
+        error_description: `Unsupported token_endpoint_auth_method: ${String(authMethod)}`,
+      });
+      return;
+    }
+
+    const requestedGrantTypes = (body.grant_types as unknown[] | undefined) ?? ["authorization_code"];
+    if (
+      !Array.isArray(requestedGrantTypes) ||
+      !requestedGrantTypes.includes("authorization_code") ||
+      !requestedGrantTypes.every((g) => GRANT_TYPES.includes(g as string))
+    ) {
+      res.status(400).json({
+        error: "invalid_client_metadata",
+        error_description: `grant_types must include authorization_code and only contain ${GRANT_TYPES.join(", ")}`,
+      });
+      return;
+    }
+
+    let clientScopes: Scope[] | undefined;
+    if (body.scope !== undefined) {
+      clientScopes = typeof body.scope === "string" ? parseScopes(body.scope) : undefined;
+      if (!clientScopes) {
+        res.status(400).json({
+          error: "invalid_client_metadata",
+          error_description: `scope must be a space-delimited subset of: ${SCOPES.join(" ")}`,
+        });
+        return;
+      }
+    }
+
+    // Non-standard metadata: pin the client to a tool profile
+    if (body.profile !== undefined && (typeof body.profile !== "string" || !getProfile(body.profile))) {
+      res.status(400).json({
+        error: "invalid_client_metadata",
+        error_description: `profile must be one of: ${listProfiles().join(", ")}`,
+      });
+      return;
+    }
+
+    const clientId = crypto.randomUUID();
+    const clientSecret = authMethod === "none" ? undefined : crypto.randomBytes(32).toString("hex");
+    const client: RegisteredClient = {
+      clientId,
+      clientSecretHash: clientSecret ? sha256(clientSecret) : undefined,
+      clientName: typeof body.client_name === "string" ? body.client_name : undefined,
+      redirectUris,
+      tokenEndpointAuthMethod: authMethod,
+      scopes: clientScopes,
+      profile: body.profile as string | undefined,
+      grantTypes: GRANT_TYPES.filter((g) => requestedGrantTypes.includes(g)),
+      issuedAt: Math.floor(Date.now() / 1000),
+    };
+    clients.set(clientId, client);
+    saveClients(clients);
+    console.error(`[oauth] Registered client ${clientId} (${client.clientName ?? "unnamed"})`);
+
+    res.status(201).json({
+      client_id: clientId,
+      ...(clientSecret && { client_secret: clientSecret, client_secret_expires_at: 0 }),
+      client_id_issued_at: client.issuedAt,
+      client_name: client.clientName,
+      redirect_uris: client.redirectUris,
+      grant_types: client.grantTypes,
+      response_types: ["code"],
+      token_endpoint_auth_method: authMethod,
+      ...(clientScopes && { scope: clientScopes.join(" ") }),
+      ...(client.profile && { profile: client.profile }),
+    });
+  });
+
+  type AuthorizeCheck =
+    | { ok: true; client: RegisteredClient; scopes: Scope[]; params: Record<string, string> }
+    | { ok: false; status: number; error: string; description: string; redirect?: boolean };
+
+  /**
+   * Validate an authorization request. Shared by the consent page (GET) and
+   * its form submission (POST) so approval can never bypass a check.
+   */
+  function checkAuthorizeRequest(params: Record<string, string>): AuthorizeCheck {
+    const { client_id, redirect_uri, response_type, scope, code_challenge, code_challenge_method } = params;
+
+    const client = getClient(client_id);
+    if (!client) {
+      return { ok: false, status: 403, error: "invalid_client", description: "Unknown client_id" };
+    }
+    // Never redirect to an unverified URI — report the error directly instead
+    if (!isValidRedirectUri(redirect_uri) || !redirectAllowed(client, redirect_uri)) {
+      return { ok: false, status: 400, error: "invalid_request", description: "redirect_uri not registered for client" };
+    }
     if (response_type !== "code") {
-      res.status(400).json({ error: "unsupported_response_type" });
+      return { ok: false, status: 400, error: "unsupported_response_type", description: "response_type must be code", redirect: true };
+    }
+
+    const allowed = client.scopes ?? [...SCOPES];
+    const scopes = scope ? parseScopes(scope) : (config.defaultScopes ?? [...SCOPES]).filter((s) => allowed.includes(s));
+    if (!scopes || scopes.length === 0 || !scopes.every((s) => allowed.includes(s))) {
+      return {
+        ok: false,
+        status: 400,
+        error: "invalid_scope",
+        description: `Requested scope is not available to this client (allowed: ${allowed.join(" ")})`,
+        redirect: true,
+      };
+    }
+
+    // Public clients have no secret, so PKCE is their only proof of possession
+    if ((config.requireS256 || client.tokenEndpointAuthMethod === "none") && !code_challenge) {
+      return { ok: false, status: 400, error: "invalid_request", description: "code_challenge required", redirect: true };
+    }
+    const method = code_challenge_method || "plain";
+    if (code_challenge && !CHALLENGE_METHODS.includes(method)) {
+      return {
+        ok: false,
+        status: 400,
+        error: "invalid_request",
+        description: `code_challenge_method must be one of: ${CHALLENGE_METHODS.join(", ")}`,
+        redirect: true,
+      };
+    }
+
+    return { ok: true, client, scopes, params };
+  }
+
+  function sendAuthorizeError(res: any, check: Extract<AuthorizeCheck, { ok: false }>, params: Record<string, string>) {
+    if (!check.redirect) {
+      res.status(check.status).json({ error: check.error, error_description: check.description });
+      return;
+    }
+    const url = new URL(params.redirect_uri);
+    url.searchParams.set("error", check.error);
+    url.searchParams.set("error_description", check.description);
+    if (params.state) url.searchParams.set("state", params.state);
+    res.redirect(302, url.toString());
+  }
+
+  function renderConsent(res: any, check: Extract<AuthorizeCheck, { ok: true }>, error?: string, status = 401) {
+    const { client, scopes, params } = check;
+    const hidden = AUTHORIZE_PARAMS.filter((k) => params[k] !== undefined)
+      .map((k) => `<input type="hidden" name="${k}" value="${escapeHtml(params[k])}">`)
+      .join("\n");
+    const channels = config.listChannels?.() ?? [];
+    const redirectHost = new URL(params.redirect_uri).host;
+    sendPage(
+      res,
+      error ? status : 200,
+      "Authorize access to YouTube MCP",
+      `<p><strong>${escapeHtml(client.clientName ?? client.clientId)}</strong> wants to connect to this server.
+It will be sent back to <code>${escapeHtml(redirectHost)}</code>.</p>
+<p>Requested permissions:</p>
+<ul>${scopes.map((s) => `<li><code>${escapeHtml(s)}</code> — ${escapeHtml(SCOPE_DESCRIPTIONS[s])}</li>`).join("")}</ul>
+<p>YouTube channels it will be able to act on:</p>
+<ul>${channels.length ? channels.map((c) => `<li>${escapeHtml(c)}</li>`).join("") : "<li class=\"muted\">No channels connected</li>"}</ul>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+<form method="post" action="/authorize">
+${hidden}
+<label for="password">Operator password</label>
+<input type="password" id="password" name="password" autocomplete="current-password" autofocus>
+<button type="submit" name="action" value="approve">Approve</button>
+<button type="submit" name="action" value="deny">Deny</button>
+</form>`,
+    );
+  }
+
+  function operatorPasswordMatches(password: unknown): boolean {
+    if (typeof password !== "string" || !password) return false;
+    return [config.consentPassword, config.staticToken].some((p) => !!p && safeEqual(password, p));
+  }
+
+  /**
+   * Check the operator password, limited per client IP: after
+   * PASSWORD_MAX_FAILURES wrong guesses within PASSWORD_WINDOW_MS, every
+   * attempt from that IP is refused until the oldest failure ages out.
+   * Shared by the consent page and /connect/youtube.
+   */
+  function checkOperatorPassword(req: any, password: unknown): PasswordCheck {
+    const ip = String(req.ip ?? "unknown");
+    const now = Date.now();
+    const failures = (passwordFailures.get(ip) ?? []).filter((t) => t > now - PASSWORD_WINDOW_MS);
+    if (failures.length >= PASSWORD_MAX_FAILURES) {
+      return { ok: false, retryAfter: Math.max(1, Math.ceil((failures[0] + PASSWORD_WINDOW_MS - now) / 1000)) };
+    }
+    if (operatorPasswordMatches(password)) {
+      passwordFailures.delete(ip);
+      return { ok: true };
+    }
+    passwordFailures.set(ip, [...failures, now]);
+    return { ok: false };
+  }
+
+  // Authorization endpoint — shows a consent page for registered clients
+  app.get("/authorize", (req: any, res: any) => {
+    const params = req.query as Record<string, string>;
+    const check = checkAuthorizeRequest(params);
+    if (!check.ok) {
+      sendAuthorizeError(res, check, params);
       return;
     }
-    if (client_id !== config.clientId) {
-      res.status(403).json({ error: "invalid_client" });
+    renderConsent(res, check);
+  });
+
+  // Consent form submission — issues the code only with a valid operator password
+  app.post("/authorize", (req: any, res: any) => {
+    const params = Object.fromEntries(
+      AUTHORIZE_PARAMS.filter((k) => typeof req.body?.[k] === "string").map((k) => [k, req.body[k] as string]),
+    );
+    const check = checkAuthorizeRequest(params);
+    if (!check.ok) {
+      sendAuthorizeError(res, check, params);
+      return;
+    }
+
+    if (req.body?.action === "deny") {
+      sendAuthorizeError(
+        res,
+        { ok: false, status: 403, error: "access_denied", description: "The operator denied the request", redirect: true },
+        params,
+      );
+      return;
+    }
+    const password = checkOperatorPassword(req, req.body?.password);
+    if (!password.ok && password.retryAfter) {
+      console.error(`[oauth] Refused consent for client ${check.client.clientId}: too many bad passwords from ${req.ip}`);
+      res.setHeader("Retry-After", String(password.retryAfter));
+      renderConsent(res, check, `Too many incorrect passwords. Try again in ${Math.ceil(password.retryAfter / 60)} min.`, 429);
+      return;
+    }
+    if (!password.ok) {
+      console.error(`[oauth] Rejected consent for client ${check.client.clientId}: bad operator password`);
+      renderConsent(res, check, "Incorrect password.");
       return;
     }
 
     const code = crypto.randomBytes(32).toString("hex");
     authCodes.set(code, {
-      clientId: client_id,
-      redirectUri: redirect_uri,
-      codeChallenge: code_challenge,
-      codeChallengeMethod: code_challenge_method || "plain",
+      clientId: check.client.clientId,
+      redirectUri: params.redirect_uri,
+      scopes: check.scopes,
+      codeChallenge: params.code_challenge,
+      codeChallengeMethod: params.code_challenge_method || "plain",
       expiresAt: Date.now() + 5 * 60 * 1000,
     });
+    console.error(`[oauth] Approved client ${check.client.clientId} for ${check.scopes.join(" ")}`);
 
-    const url = new URL(redirect_uri);
+    const url = new URL(params.redirect_uri);
     url.searchParams.set("code", code);
-    if (state) url.searchParams.set("state", state);
+    if (params.state) url.searchParams.set("state", params.state);
     res.redirect(302, url.toString());
   });
 
   // Token endpoint
   app.post("/token", (req: any, res: any) => {
-    const { grant_type, code, client_id, client_secret, redirect_uri, code_verifier } = req.body;
+    const { grant_type, code, redirect_uri, code_verifier, refresh_token, scope } = req.body;
+
+    if (grant_type === "refresh_token") {
+      const client = authenticateClient(req);
+      if (!client) {
+        res.status(401).json({ error: "invalid_client" });
+        return;
+      }
+      if (!allowsGrant(client, "refresh_token")) {
+        res.status(400).json({ error: "unauthorized_client", error_description: "refresh_token grant not registered" });
+        return;
+      }
+      const scopes = typeof scope === "string" ? parseScopes(scope) : undefined;
+      if (scope !== undefined && !scopes) {
+        res.status(400).json({ error: "invalid_scope" });
+        return;
+      }
+      const pair =
+        typeof refresh_token === "string" ? rotateRefreshToken(refresh_token, client.clientId, scopes) : undefined;
+      if (!pair) {
+        res.status(400).json({ error: "invalid_grant" });
+        return;
+      }
+      res.set("Cache-Control", "no-store");
+      res.json(pair);
+      return;
+    }
 
     if (grant_type !== "authorization_code") {
       res.status(400).json({ error: "unsupported_grant_type" });
       return;
     }
 
+    // Codes are single-use: consumed before any check, so a leaked code can't
+    // be retried with guessed verifiers until it expires
     const stored = authCodes.get(code);
+    authCodes.delete(code);
     if (!stored || stored.expiresAt < Date.now()) {
-      authCodes.delete(code);
       res.status(400).json({ error: "invalid_grant" });
       return;
     }
 
-    if (client_id !== config.clientId || client_secret !== config.clientSecret) {
+    const client = authenticateClient(req);
+    if (!client || client.clientId !== stored.clientId) {
       res.status(401).json({ error: "invalid_client" });
       return;
     }
@@ -118,24 +611,121 @@ export function setupOAuth(app: any, config: OAuthConfig) {
       }
     }
 
-    authCodes.delete(code);
+    res.set("Cache-Control", "no-store");
+    // Refresh tokens only go to clients that registered the refresh_token grant
+    res.json(
+      allowsGrant(client, "refresh_token")
+        ? issueTokenPair(client.clientId, stored.scopes)
+        : issueAccessToken(client.clientId, stored.scopes),
+    );
+  });
 
-    const accessToken = crypto.randomBytes(32).toString("hex");
-    accessTokens.add(accessToken);
+  // Token revocation (RFC 7009). Clients may revoke their own tokens; the
+  // static token may revoke anyone's.
+  app.post("/revoke", (req: any, res: any) => {
+    const admin = isAdmin(req);
+    const client = admin ? undefined : authenticateClient(req);
+    if (!admin && !client) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+    const { token } = req.body ?? {};
+    if (typeof token !== "string" || !token) {
+      res.status(400).json({ error: "invalid_request", error_description: "token is required" });
+      return;
+    }
+
+    const details = inspectToken(token);
+    if (details && client && details.clientId !== client.clientId) {
+      res.status(400).json({ error: "invalid_request", error_description: "token was not issued to this client" });
+      return;
+    }
+    // Unknown or already-expired tokens still get 200, per the RFC
+    if (details) {
+      revokeToken(token);
+      console.error(`[oauth] Revoked ${details.kind} token for client ${details.clientId}`);
+    }
+    res.status(200).end();
+  });
 
+  // Token introspection (RFC 7662) — for resource servers, so callers must authenticate
+  app.post("/introspect", (req: any, res: any) => {
+    if (!isAdmin(req) && !authenticateClient(req)) {
+      res.status(401).json({ error: "invalid_client" });
+      return;
+    }
+    const { token } = req.body ?? {};
+    const details = typeof token === "string" ? inspectToken(token) : undefined;
+    if (!details) {
+      res.json({ active: false });
+      return;
+    }
     res.json({
-      access_token: accessToken,
-      token_type: "Bearer",
+      active: true,
+      scope: details.scopes.join(" "),
+      client_id: details.clientId,
+      token_type: details.kind === "access" ? "Bearer" : "refresh_token",
+      iat: Math.floor(details.issuedAt / 1000),
+      exp: Math.floor(details.expiresAt / 1000),
+      iss: config.publicUrl,
     });
   });
 
+  // ─── Admin: audit and revoke active tokens ──────────────────────────────────
+  app.get("/admin/tokens", (req: any, res: any) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+    res.json(
+      listTokens().map((t) => ({
+        grantId: t.grantId,
+        kind: t.kind,
+        clientId: t.clientId,
+        clientName: getClient(t.clientId)?.clientName ?? null,
+        scopes: t.scopes,
+        issuedAt: iso(t.issuedAt),
+        expiresAt: iso(t.expiresAt),
+        lastUsedAt: iso(t.lastUsedAt),
+      })),
+    );
+  });
+
+  app.delete("/admin/tokens/:grantId", (req: any, res: any) => {
+    if (!isAdmin(req)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    const revoked = revokeGrant(req.params.grantId);
+    if (revoked === 0) {
+      res.status(404).json({ error: "Unknown grant" });
+      return;
+    }
+    console.error(`[oauth] Admin revoked grant ${req.params.grantId} (${revoked} tokens)`);
+    res.json({ revoked });
+  });
+
   return {
-    validateToken(req: any): boolean {
+    isAdmin,
+    checkOperatorPassword,
+    /** Resolve the request's bearer token. The static token carries every scope. */
+    validateToken(req: any): AuthInfo | undefined {
       const auth = req.headers.authorization;
-      if (!auth) return false;
+      if (!auth) return undefined;
       const token = auth.replace(/^Bearer\s+/i, "");
-      if (config.staticToken && token === config.staticToken) return true;
-      return accessTokens.has(token);
+      if (config.staticToken && token === config.staticToken) {
+        return { clientId: "static", grantId: "static", scopes: [...SCOPES] };
+      }
+      const info = findAccessToken(token);
+      return (
+        info && {
+          clientId: info.clientId,
+          grantId: info.grantId,
+          scopes: info.scopes,
+          profile: getClient(info.clientId)?.profile,
+        }
+      );
     },
   };
 }
@@ -0,0 +1,217 @@
+/**
+ * Operational tools — introspection of the server's own state
+ * (connected channels, audit log, tool health, quota usage) rather than
+ * YouTube content.
+ */
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "./oauth.js";
+import { ytFetch, YT_API } from "./write-tools.js";
+import { listChannels, channelRefreshToken, channelDisconnect, isChannelDisconnected, type ChannelConfig } from "./channels.js";
+import { ChannelDisconnectedError } from "./errors.js";
+import { readAuditLog } from "./audit.js";
+import { handlerHealthReport, resetHealth } from "./resilience.js";
+import { quotaUsage, HISTORY_DAYS } from "./quota.js";
+import { shapeResponse, fieldsParam, detailParam } from "./trim.js";
+
+// ---------------------------------------------------------------------------
+// listConnectedChannels
+// ---------------------------------------------------------------------------
+
+interface ChannelStatus {
+  id: string | null;
+  title: string | null;
+  handle: string | null;
+  aliases: string[];
+  default: boolean;
+  tokenHealth: "ok" | "missing" | "disconnected" | "error";
+  disconnectedAt?: string;
+  error?: string;
+}
+
+/** Check one channel's refresh token by minting an access token and asking who it is. */
+async function checkChannel(channel: ChannelConfig): Promise<ChannelStatus> {
+  const status: ChannelStatus = {
+    id: channel.id ?? null,
+    title: channel.title ?? null,
+    handle: channel.handle ?? null,
+    aliases: channel.aliases ?? [],
+    default: !!channel.default,
+    tokenHealth: "ok",
+  };
+  if (!channelRefreshToken(channel)) {
+    return { ...status, tokenHealth: "missing" };
+  }
+  if (isChannelDisconnected(channel)) {
+    return { ...status, tokenHealth: "disconnected", disconnectedAt: channelDisconnect(channel)?.at };
+  }
+
+  // The registry reference that selects exactly this channel
+  const ref = channel.id ?? channel.aliases?.[0] ?? channel.handle;
+  try {
+    const url = new URL(`${YT_API}/channels`);
+    url.searchParams.set("part", "snippet");
+    url.searchParams.set("mine", "true");
+    // Never from the cache: this is a live check of the token
+    const data = (await ytFetch(url.toString(), { noStore: true }, ref)) as {
+      items?: { id: string; snippet: { title: string; customUrl?: string } }[];
+    };
+    const mine = data.items?.[0];
+    if (mine) {
+      status.id = mine.id;
+      status.title = mine.snippet.title;
+      status.handle = mine.snippet.customUrl ?? status.handle;
+    }
+    return status;
+  } catch (err) {
+    if (err instanceof ChannelDisconnectedError) {
+      return { ...status, tokenHealth: "disconnected", disconnectedAt: channelDisconnect(channel)?.at, error: err.message };
+    }
+    return { ...status, tokenHealth: "error", error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/** Callers acting for the operator, who may read every client's audit entries */
+const OPERATOR_CLIENTS = ["static", "stdio"];
+
+export function registerOpsTools(server: McpServer, auth: AuthInfo): void {
+  // ─── listConnectedChannels ──────────────────────────────────────────────────
+  server.registerTool(
+    "listConnectedChannels",
+    {
+      description:
+        "List the YouTube channels this server can act as, with each channel's title, ID, handle, " +
+        "aliases and refresh-token health. Use an alias, handle or ID as the `channel` argument " +
+        "of write and analytics tools.",
+      inputSchema: {
+        fields: fieldsParam,
+        detail: detailParam,
+      },
+      annotations: { readOnlyHint: true, idempotentHint: true },
+    },
+    async (shape) => {
+      const statuses = await Promise.all(listChannels().map(checkChannel));
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(shapeResponse(statuses, shape, "computed"), null, 2) }],
+      };
+    },
+  );
+
+  // ─── getAuditLog ────────────────────────────────────────────────────────────
+  server.registerTool(
+    "getAuditLog",
+    {
+      description:
+        "Search the audit log of write actions (replies, edits, deletions, moderation, spam reports, " +
+        "metadata updates) made through this server. Each entry records when, which OAuth client and " +
+        "session, the tool, its arguments, the channel/video/comment and the result. Newest first. " +
+        "OAuth clients only see their own entries.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only entries for this tool, e.g. 'deleteComment'"),
+        videoId: z.string().optional().describe("Only entries targeting this video"),
+        commentId: z.string().optional().describe("Only entries targeting this comment (or replying to it)"),
+        since: z.string().optional().describe("ISO date/time, inclusive (e.g. '2026-01-31')"),
+        until: z.string().optional().describe("ISO date/time, exclusive"),
+        limit: z.number().int().min(1).max(500).default(50).describe("Maximum entries to return"),
+        fields: fieldsParam,
+        detail: detailParam,
+      },
+      annotations: { readOnlyHint: true, idempotentHint: true },
+    },
+    async ({ fields, detail, ...filter }) => {
+      for (const key of ["since", "until"] as const) {
+        if (filter[key] && Number.isNaN(Date.parse(filter[key]))) {
+          throw new Error(`${key} must be an ISO date or date-time`);
+        }
+      }
+      const own = OPERATOR_CLIENTS.includes(auth.clientId) ? {} : { clientId: auth.clientId };
+      const entries = readAuditLog({ ...filter, ...own });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(shapeResponse(entries, { fields, detail }, "computed"), null, 2) }],
+      };
+    },
+  );
+
+  // ─── getToolHealth ──────────────────────────────────────────────────────────
+  server.registerTool(
+    "getToolHealth",
+    {
+      description:
+        "Show the health of each tool's handlers (tool:handler): consecutive failure count, whether " +
+        "it is degraded, its circuit state (closed, open, half-open), last error and last failure time. " +
+        "Use when a tool answers [DISABLED] or keeps falling back.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only this tool's handlers, e.g. 'getAutocompleteSuggestions'"),
+        fields: fieldsParam,
+        detail: detailParam,
+      },
+      annotations: { readOnlyHint: true, idempotentHint: true },
+    },
+    async ({ tool, ...shape }) => {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(shapeResponse(handlerHealthReport(tool), shape, "computed"), null, 2) }],
+      };
+    },
+  );
+
+  // ─── resetToolHealth ────────────────────────────────────────────────────────
+  // A write tool (for scopes and rate limits), so every reset lands in the audit log
+  server.registerTool(
+    "resetToolHealth",
+    {
+      description:
+        "Re-enable degraded tool handlers by clearing their failure state. Give tool and handler to " +
+        "reset one handler, only tool to reset all of that tool's handlers, or nothing to reset everything.",
+      inputSchema: {
+        tool: z.string().optional().describe("Tool to reset, e.g. 'getTrafficSources'"),
+        handler: z.string().optional().describe("Handler of that tool to reset (requires tool)"),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    },
+    async ({ tool, handler }) => {
+      if (handler && !tool) throw new Error("handler requires tool");
+      const reset = resetHealth(tool, handler);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: reset.length ? `Reset ${reset.length} handler(s): ${reset.join(", ")}` : "No matching handlers to reset.",
+          },
+        ],
+      };
+    },
+  );
+
+  // ─── getQuotaUsage ──────────────────────────────────────────────────────────
+  server.registerTool(
+    "getQuotaUsage",
+    {
+      description:
+        "Report estimated YouTube Data API quota usage per Pacific-time day: total units, units " +
+        "remaining, and the breakdown by tool, by API key (or OAuth) and by API method, with the " +
+        "configured daily quota and soft/hard budgets. Calls made by the upstream read tools are not counted.",
+      inputSchema: {
+        days: z
+          .number()
+          .int()
+          .min(1)
+          .max(HISTORY_DAYS)
+          .default(1)
+          .describe(`Days to report, newest first (1 = today, max ${HISTORY_DAYS})`),
+        fields: fieldsParam,
+        detail: detailParam,
+      },
+      annotations: { readOnlyHint: true, idempotentHint: true },
+    },
+    async ({ days, ...shape }) => {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(shapeResponse(quotaUsage(days), shape, "computed"), null, 2) }],
+      };
+    },
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Tool profiles — named subsets of the tool list, so a session only sees
+ * the tools it needs (and spends fewer context tokens on tool definitions).
+ *
+ * Profiles narrow what OAuth scopes allow; they never grant more. Sources,
+ * merged by name (later wins):
+ *   1. Built-ins: full, research, moderation
+ *   2. MCP_TOOL_PROFILES env var     — JSON object of { name: ToolProfile }
+ *   3. DATA_DIR/tool-profiles.json   — same shape
+ *
+ * MCP_TOOL_PROFILE picks the profile for sessions that don't ask for one.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registeredTools } from "./tool-registry.js";
+import { isWriteTool } from "./scopes.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const PROFILES_FILE = join(DATA_DIR, "tool-profiles.json");
+
+export const DEFAULT_PROFILE = process.env.MCP_TOOL_PROFILE || "full";
+
+export interface ToolProfile {
+  description?: string;
+  /** Tool names to include; "*" includes every tool */
+  tools: string[];
+  /** Tool names to leave out, even if `tools` matches them */
+  exclude?: string[];
+  /** Drop every write tool, whatever `tools` says */
+  readOnly?: boolean;
+}
+
+const BUILTIN_PROFILES: Record<string, ToolProfile> = {
+  full: {
+    description: "Every tool the session's scopes allow",
+    tools: ["*"],
+  },
+  research: {
+    description: "Read-only: search, video and channel data, analytics and discovery",
+    tools: ["*"],
+    readOnly: true,
+  },
+  moderation: {
+    description: "Read and moderate comments on our channels",
+    tools: [
+      "getChannelComments",
+      "getVideoComments",
+      "getVideoDetails",
+      "replyToComment",
+      "updateComment",
+      "deleteComment",
+      "moderateComment",
+      "markAsSpam",
+      "listConnectedChannels",
+    ],
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+function isToolProfile(value: unknown): value is ToolProfile {
+  const p = value as ToolProfile;
+  const isStringArray = (v: unknown) => Array.isArray(v) && v.every((t) => typeof t === "string");
+  return (
+    typeof p === "object" &&
+    p !== null &&
+    isStringArray(p.tools) &&
+    (p.exclude === undefined || isStringArray(p.exclude)) &&
+    (p.readOnly === undefined || typeof p.readOnly === "boolean")
+  );
+}
+
+function parseProfiles(raw: string, source: string): Record<string, ToolProfile> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new Error("expected a JSON object of profiles");
+    }
+    const profiles: Record<string, ToolProfile> = {};
+    for (const [name, profile] of Object.entries(parsed)) {
+      if (isToolProfile(profile)) profiles[name] = profile;
+      else console.error(`[profiles] Ignoring invalid profile "${name}" in ${source}: needs a "tools" array`);
+    }
+    return profiles;
+  } catch (err) {
+    console.error(`[profiles] Ignoring invalid ${source}:`, err instanceof Error ? err.message : err);
+    return {};
+  }
+}
+
+function loadProfiles(): Record<string, ToolProfile> {
+  return {
+    ...BUILTIN_PROFILES,
+    ...(process.env.MCP_TOOL_PROFILES ? parseProfiles(process.env.MCP_TOOL_PROFILES, "MCP_TOOL_PROFILES") : {}),
+    ...(existsSync(PROFILES_FILE) ? parseProfiles(readFileSync(PROFILES_FILE, "utf-8"), PROFILES_FILE) : {}),
+  };
+}
+
+const profiles = loadProfiles();
+
+// ---------------------------------------------------------------------------
+// Lookup / application
+// ---------------------------------------------------------------------------
+
+export function getProfile(name: string): ToolProfile | undefined {
+  return Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+}
+
+export function listProfiles(): string[] {
+  return Object.keys(profiles);
+}
+
+function profileIncludes(profile: ToolProfile, toolName: string, isWrite: boolean): boolean {
+  if (profile.readOnly && isWrite) return false;
+  if (profile.exclude?.includes(toolName)) return false;
+  return profile.tools.includes("*") || profile.tools.includes(toolName);
+}
+
+/**
+ * Remove every tool the named profile leaves out. Applying several profiles
+ * keeps only the tools all of them include.
+ */
+export function applyProfile(server: McpServer, name: string): void {
+  const profile = getProfile(name);
+  if (!profile) throw new Error(`Unknown tool profile: ${name}`);
+  for (const [toolName, tool] of Object.entries(registeredTools(server))) {
+    if (!profileIncludes(profile, toolName, isWriteTool(toolName, tool.annotations))) {
+      tool.remove();
+    }
+  }
+}
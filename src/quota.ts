@@ -0,0 +1,256 @@
+/**
+ * YouTube Data API quota accounting and budgets.
+ *
+ * Google resets the 10,000-unit daily quota at midnight Pacific time. We
+ * charge each outgoing Data API call its documented cost and attribute it
+ * to the day, the MCP tool that made it and the API key (or OAuth project)
+ * it ran under, so we can see what spent the quota. Calls the upstream
+ * @kirbah/mcp-youtube tools make through their own client are not seen
+ * here, so this is a lower bound.
+ *
+ * Usage lives in memory and is written to DATA_DIR/quota-usage.json in
+ * batches (temp file + rename); the last HISTORY_DAYS days are kept.
+ *
+ * Budgets, in units per day:
+ *   YOUTUBE_QUOTA_SOFT_BUDGET — crossing it logs a warning and alerts
+ *   YOUTUBE_QUOTA_HARD_BUDGET — calls that would go past it are refused
+ *                               before they are sent (0 = no hard budget)
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { sendAlert, resolveAlert, logAlertError } from "./alerts.js";
+import { QuotaBudgetError } from "./errors.js";
+import { batchedJsonFile } from "./json-file.js";
+import { wrapToolCallbacks } from "./tool-registry.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function unitsFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const DAILY_QUOTA = unitsFromEnv("YOUTUBE_DAILY_QUOTA", 10000);
+const SOFT_BUDGET = unitsFromEnv("YOUTUBE_QUOTA_SOFT_BUDGET", Math.floor(DAILY_QUOTA * 0.8));
+const HARD_BUDGET = unitsFromEnv("YOUTUBE_QUOTA_HARD_BUDGET", 0);
+
+const DATA_DIR = process.env.DATA_DIR || "/data";
+const USAGE_FILE = join(DATA_DIR, "quota-usage.json");
+/** Days of usage kept, today included */
+export const HISTORY_DAYS = 7;
+/** Changes within this window are written to disk together */
+const FLUSH_DELAY_MS = 5000;
+
+/** Only the Data API is metered in units; Analytics, OAuth and web endpoints are free. */
+const DATA_API_PREFIX = "https://www.googleapis.com/youtube/v3/";
+
+/**
+ * Documented costs by "VERB resource". Anything else costs 1 unit to read
+ * and 50 to write.
+ */
+const METHOD_COSTS: Record<string, number> = {
+  "GET search": 100,
+  "POST commentThreads": 50,
+  "POST comments": 50,
+  "PUT comments": 50,
+  "DELETE comments": 50,
+  "POST comments/setModerationStatus": 50,
+  "POST comments/markAsSpam": 50,
+  "PUT videos": 50,
+  "POST videos/rate": 50,
+  "POST captions": 400,
+  "PUT captions": 450,
+  "DELETE captions": 50,
+};
+
+/** Attribution for calls made outside any tool (health checks, channel connect) */
+const NO_TOOL = "(none)";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface DayUsage {
+  units: number;
+  calls: number;
+  byTool: Record<string, number>;
+  byKey: Record<string, number>;
+  byMethod: Record<string, number>;
+  /** Set once the soft-budget warning has gone out for the day */
+  softWarned?: boolean;
+}
+
+/** Keyed by Pacific day, YYYY-MM-DD */
+type UsageState = Record<string, DayUsage>;
+
+export interface DayUsageReport extends Omit<DayUsage, "softWarned"> {
+  day: string;
+  remaining: number;
+}
+
+// ---------------------------------------------------------------------------
+// State persistence
+// ---------------------------------------------------------------------------
+
+function loadUsage(): UsageState {
+  try {
+    return JSON.parse(readFileSync(USAGE_FILE, "utf-8")) as UsageState;
+  } catch {
+    return {};
+  }
+}
+
+const usage: UsageState = loadUsage();
+pruneHistory();
+
+// Best-effort, like the health state: accounting must never fail a call
+const usageFile = batchedJsonFile(USAGE_FILE, () => usage, FLUSH_DELAY_MS, "quota");
+const saveUsage = usageFile.save;
+
+/** Write pending usage now. */
+export const flushUsage = usageFile.flush;
+
+// ---------------------------------------------------------------------------
+// Tool attribution
+// ---------------------------------------------------------------------------
+
+const currentTool = new AsyncLocalStorage<string>();
+
+/** Attribute the API calls each tool call makes to that tool. */
+export function applyQuotaAttribution(server: McpServer): void {
+  wrapToolCallbacks(server, (tool, _registered, callback) => (...args) => currentTool.run(tool, () => callback(...args)));
+}
+
+// ---------------------------------------------------------------------------
+// Accounting
+// ---------------------------------------------------------------------------
+
+/** Today's date in Pacific time, YYYY-MM-DD — the quota day. */
+export function pacificDay(date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "America/Los_Angeles" }).format(date);
+}
+
+function dataApiMethod(url: string, method = "GET"): string | undefined {
+  if (!url.startsWith(DATA_API_PREFIX)) return undefined;
+  const resource = new URL(url).pathname.slice("/youtube/v3/".length);
+  return `${method.toUpperCase()} ${resource}`;
+}
+
+/** Estimated cost of a call in quota units; 0 for anything that isn't the Data API. */
+export function quotaCost(url: string, method = "GET"): number {
+  const key = dataApiMethod(url, method);
+  if (!key) return 0;
+  return METHOD_COSTS[key] ?? (key.startsWith("GET ") ? 1 : 50);
+}
+
+/** Which quota a call draws on: an API key (last 4 chars) or the OAuth client's project. */
+function keyLabel(url: string): string {
+  const key = new URL(url).searchParams.get("key");
+  return key ? `key:…${key.slice(-4)}` : "oauth";
+}
+
+let currentDay = pacificDay();
+
+function pruneHistory(): void {
+  for (const old of Object.keys(usage).sort().slice(0, -HISTORY_DAYS)) delete usage[old];
+}
+
+/** Today's usage record, starting a new day (and dropping old ones) at Pacific midnight. */
+function today(): DayUsage {
+  const day = pacificDay();
+  if (day !== currentDay) {
+    currentDay = day;
+    pruneHistory();
+    saveUsage();
+    resolveAlert("youtube-quota", `Quota day ${day} started; the daily quota has reset`).catch(logAlertError);
+  }
+  return (usage[day] ??= { units: 0, calls: 0, byTool: {}, byKey: {}, byMethod: {} });
+}
+
+function add(counts: Record<string, number>, key: string, units: number): void {
+  counts[key] = (counts[key] ?? 0) + units;
+}
+
+/**
+ * Charge a call about to be made to the API. Throws QuotaBudgetError,
+ * without charging, if it would take today's usage past the hard budget.
+ */
+export function chargeQuota(url: string, method?: string): void {
+  const cost = quotaCost(url, method);
+  if (!cost) return;
+  const usageToday = today();
+  const tool = currentTool.getStore() ?? NO_TOOL;
+  const endpoint = dataApiMethod(url, method)!;
+
+  if (HARD_BUDGET && usageToday.units + cost > HARD_BUDGET) {
+    const message =
+      `Refused ${endpoint} (${cost} units) for ${tool}: today's estimated Data API usage is ` +
+      `${usageToday.units} of the ${HARD_BUDGET}-unit hard budget`;
+    console.error(`[quota] ${message}`);
+    sendAlert({ event: "quota_exhausted", severity: "critical", source: "youtube-quota", message }).catch(logAlertError);
+    throw new QuotaBudgetError(message, undefined, "budgetExceeded");
+  }
+
+  const before = usageToday.units;
+  usageToday.units += cost;
+  usageToday.calls += 1;
+  add(usageToday.byTool, tool, cost);
+  add(usageToday.byKey, keyLabel(url), cost);
+  add(usageToday.byMethod, endpoint, cost);
+  saveUsage();
+
+  if (SOFT_BUDGET && !usageToday.softWarned && usageToday.units >= SOFT_BUDGET) {
+    usageToday.softWarned = true;
+    const message = `Estimated Data API usage reached ${usageToday.units} units for ${currentDay}, past the ${SOFT_BUDGET}-unit soft budget`;
+    console.error(`[quota] ${message}`);
+    sendAlert({ event: "quota_budget_warning", severity: "warning", source: "youtube-quota", message }).catch(logAlertError);
+  }
+  if (before < DAILY_QUOTA && usageToday.units >= DAILY_QUOTA) {
+    sendAlert({
+      event: "quota_exhausted",
+      severity: "critical",
+      source: "youtube-quota",
+      message: `Estimated Data API usage reached ${usageToday.units} of ${DAILY_QUOTA} units for ${currentDay} (Pacific)`,
+    }).catch(logAlertError);
+  }
+}
+
+export function quotaToday(): { day: string; estimatedUnits: number; dailyQuota: number } {
+  const usageToday = today();
+  return { day: currentDay, estimatedUnits: usageToday.units, dailyQuota: DAILY_QUOTA };
+}
+
+function sortedDesc(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(counts).sort(([, a], [, b]) => b - a));
+}
+
+/** Usage for the last `days` quota days, newest first, with the budgets in force. */
+export function quotaUsage(days = 1) {
+  today();
+  const reports: DayUsageReport[] = Object.keys(usage)
+    .sort()
+    .reverse()
+    .slice(0, days)
+    .map((day) => {
+      const { softWarned: _, ...u } = usage[day];
+      return {
+        day,
+        ...u,
+        remaining: Math.max(0, DAILY_QUOTA - u.units),
+        byTool: sortedDesc(u.byTool),
+        byKey: sortedDesc(u.byKey),
+        byMethod: sortedDesc(u.byMethod),
+      };
+    });
+  return {
+    dailyQuota: DAILY_QUOTA,
+    softBudget: SOFT_BUDGET || null,
+    hardBudget: HARD_BUDGET || null,
+    days: reports,
+  };
+}
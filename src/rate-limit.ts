@@ -0,0 +1,189 @@
+/**
+ * Rate limiting — per-token budgets so a runaway agent loop cannot burn
+ * the whole YouTube quota.
+ *
+ * Every limit is keyed by OAuth client and grant, so users who share a
+ * client (everyone on the env client, say) each get their own budget and
+ * a refreshed token keeps its grant's usage. The static MCP_AUTH_TOKEN is
+ * the client and grant "static":
+ *   MCP_RATE_LIMIT_RPM              — MCP requests per minute (HTTP 429 + Retry-After)
+ *   MCP_RATE_LIMIT_CONCURRENCY      — tool calls in flight at once
+ *   MCP_RATE_LIMIT_WRITES_PER_HOUR  — write tool calls per hour
+ *
+ * Tool-call limits answer with an MCP error result, since the call arrives
+ * inside an already-accepted request. Setting a limit to 0 disables it.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "./oauth.js";
+import { wrapToolCallbacks } from "./tool-registry.js";
+import { isWriteTool } from "./scopes.js";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const REQUESTS_PER_MINUTE = limitFromEnv("MCP_RATE_LIMIT_RPM", 120);
+const MAX_CONCURRENT_CALLS = limitFromEnv("MCP_RATE_LIMIT_CONCURRENCY", 4);
+const WRITES_PER_HOUR = limitFromEnv("MCP_RATE_LIMIT_WRITES_PER_HOUR", 30);
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/** Who a budget belongs to */
+type Caller = Pick<AuthInfo, "clientId" | "grantId">;
+
+interface TokenUsage extends Caller {
+  /** Timestamps of requests in the last minute */
+  requests: number[];
+  /** Timestamps of write tool calls in the last hour */
+  writes: number[];
+  inFlight: number;
+  rejected: number;
+  lastSeen: number;
+}
+
+/** Keyed by `clientId grantId` */
+const usage = new Map<string, TokenUsage>();
+
+/** Drop timestamps that have left their sliding window. */
+function prune(u: TokenUsage): TokenUsage {
+  const now = Date.now();
+  u.requests = u.requests.filter((t) => t > now - MINUTE_MS);
+  u.writes = u.writes.filter((t) => t > now - HOUR_MS);
+  return u;
+}
+
+function getUsage({ clientId, grantId }: Caller): TokenUsage {
+  const key = `${clientId} ${grantId}`;
+  let u = usage.get(key);
+  if (!u) {
+    u = { clientId, grantId, requests: [], writes: [], inFlight: 0, rejected: 0, lastSeen: 0 };
+    usage.set(key, u);
+  }
+  u.lastSeen = Date.now();
+  return prune(u);
+}
+
+// Forget tokens that have been idle for longer than the widest window
+setInterval(() => {
+  const cutoff = Date.now() - HOUR_MS;
+  for (const [key, u] of usage) {
+    if (u.lastSeen < cutoff && u.inFlight === 0) usage.delete(key);
+  }
+}, 10 * MINUTE_MS).unref();
+
+/** Seconds until the oldest entry leaves a sliding window. */
+function retryAfter(timestamps: number[], windowMs: number): number {
+  return Math.max(1, Math.ceil((timestamps[0] + windowMs - Date.now()) / 1000));
+}
+
+// ---------------------------------------------------------------------------
+// Request limit
+// ---------------------------------------------------------------------------
+
+/**
+ * Count one MCP request against the caller's per-minute budget.
+ * Returns the Retry-After delay in seconds if the budget is spent.
+ */
+export function takeRequest(caller: Caller): number | undefined {
+  const u = getUsage(caller);
+  if (REQUESTS_PER_MINUTE && u.requests.length >= REQUESTS_PER_MINUTE) {
+    u.rejected += 1;
+    return retryAfter(u.requests, MINUTE_MS);
+  }
+  u.requests.push(Date.now());
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Tool-call limits
+// ---------------------------------------------------------------------------
+
+function limitedResult(message: string) {
+  return {
+    content: [{ type: "text" as const, text: `[RATE LIMITED] ${message}` }],
+    isError: true,
+  };
+}
+
+/**
+ * Gate every tool on the server with the caller's concurrency limit, and
+ * write tools additionally with its hourly write budget.
+ */
+export function applyRateLimits(server: McpServer, caller: Caller): void {
+  wrapToolCallbacks(server, (name, tool, callback) => {
+    const isWrite = isWriteTool(name, tool.annotations);
+    return async (...args) => {
+      const u = getUsage(caller);
+      if (MAX_CONCURRENT_CALLS && u.inFlight >= MAX_CONCURRENT_CALLS) {
+        u.rejected += 1;
+        return limitedResult(
+          `Too many tool calls in flight (limit ${MAX_CONCURRENT_CALLS}). Wait for one to finish and retry.`,
+        );
+      }
+      if (isWrite && WRITES_PER_HOUR) {
+        if (u.writes.length >= WRITES_PER_HOUR) {
+          u.rejected += 1;
+          return limitedResult(
+            `Write budget of ${WRITES_PER_HOUR} calls per hour used up. Retry in ${retryAfter(u.writes, HOUR_MS)}s.`,
+          );
+        }
+        u.writes.push(Date.now());
+      }
+
+      u.inFlight += 1;
+      try {
+        return await callback(...args);
+      } finally {
+        u.inFlight -= 1;
+      }
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+export interface UsageSnapshot {
+  clientId: string;
+  grantId: string;
+  requestsLastMinute: number;
+  writesLastHour: number;
+  inFlight: number;
+  rejected: number;
+  lastSeenAt: string;
+}
+
+/** Current usage per client and grant, for the admin endpoint. */
+export function usageSnapshot(): { limits: Record<string, number>; tokens: UsageSnapshot[] } {
+  return {
+    limits: {
+      requestsPerMinute: REQUESTS_PER_MINUTE,
+      concurrentCalls: MAX_CONCURRENT_CALLS,
+      writesPerHour: WRITES_PER_HOUR,
+    },
+    tokens: [...usage.values()].map((u) => {
+      prune(u);
+      return {
+        clientId: u.clientId,
+        grantId: u.grantId,
+        requestsLastMinute: u.requests.length,
+        writesLastHour: u.writes.length,
+        inFlight: u.inFlight,
+        rejected: u.rejected,
+        lastSeenAt: new Date(u.lastSeen).toISOString(),
+      };
+    }),
+  };
+}
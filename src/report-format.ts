@@ -0,0 +1,210 @@
+/**
+ * Tabular output for analytics tools.
+ *
+ * The Analytics API returns a report as `columnHeaders` plus positional
+ * `rows` arrays, which leaves the model to zip them up itself — a common
+ * source of misread numbers. Reports are normalised into one record per
+ * row, keyed by column name, and rendered as JSON, CSV or a Markdown
+ * table, with an optional totals row and rounding of metric values.
+ *
+ * `fields` and `detail` (see trim.ts) apply to the normalised JSON shape,
+ * `{ dimensions, metrics, rows, totals }`, before it is rendered, so
+ * `fields: "rows(day,views)"` also picks the CSV and Markdown columns.
+ * A projection that keeps rows but not totals still gets the totals of
+ * the metrics it kept.
+ */
+
+import { z } from "zod";
+import { shapeResponse, type ShapeOptions } from "./trim.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReportFormat = "json" | "csv" | "markdown";
+
+export type Cell = string | number | null;
+export type ReportRow = Record<string, Cell>;
+
+/** A report as records, with its columns split the way the Analytics API does */
+export interface ReportTable {
+  dimensions: string[];
+  metrics: string[];
+  rows: ReportRow[];
+}
+
+export interface ReportOptions extends ShapeOptions {
+  format?: ReportFormat;
+  totals?: boolean;
+  decimals?: number;
+}
+
+/** The JSON output, before `fields`/`detail` */
+interface ReportJson extends ReportTable {
+  totals?: ReportRow;
+}
+
+/** The parts of an Analytics API reports.query response we read */
+interface AnalyticsReport {
+  columnHeaders?: Array<{ name: string; columnType?: string; dataType?: string }>;
+  rows?: Cell[][];
+}
+
+/**
+ * Metrics that are averages, ratios or rates: adding them up across rows
+ * means nothing, so their totals cell is left empty.
+ */
+const NON_ADDITIVE = /^(average|avg)|Percentage$|Ratio$|Rate$|Performance$|Per[A-Z]|^(cpm|playbackBasedCpm)$/;
+
+const TOTAL_LABEL = "Total";
+/** CSV/Markdown column holding TOTAL_LABEL, so no dimension value has to make room for it */
+const LABEL_COLUMN = "";
+const NO_DATA = "No data for this report.";
+
+// ---------------------------------------------------------------------------
+// Tool arguments
+// ---------------------------------------------------------------------------
+
+/** Optional `format` tool argument for analytics tools. */
+export const formatParam = z
+  .enum(["json", "csv", "markdown"])
+  .optional()
+  .describe("Output format: 'json' records (default), 'csv', or a 'markdown' table ready to paste into a report");
+
+/** Optional `totals` tool argument for analytics tools. */
+export const totalsParam = z
+  .boolean()
+  .optional()
+  .describe("Add a totals row summing each metric; averages and ratios are left blank (default: true)");
+
+/** Optional `decimals` tool argument for analytics tools. */
+export const decimalsParam = z
+  .number()
+  .int()
+  .min(0)
+  .max(6)
+  .optional()
+  .describe("Round metric values to this many decimal places (default: no rounding)");
+
+// ---------------------------------------------------------------------------
+// Normalising
+// ---------------------------------------------------------------------------
+
+/** Zip an Analytics API report's `columnHeaders` and `rows` into records. */
+export function toReportTable(report: unknown): ReportTable {
+  const { columnHeaders = [], rows = [] } = (report ?? {}) as AnalyticsReport;
+  const names = columnHeaders.map((h) => h.name);
+  return {
+    dimensions: columnHeaders.filter((h) => h.columnType !== "METRIC").map((h) => h.name),
+    metrics: columnHeaders.filter((h) => h.columnType === "METRIC").map((h) => h.name),
+    rows: rows.map((row) => Object.fromEntries(names.map((name, i) => [name, row[i] ?? null]))),
+  };
+}
+
+function round(value: Cell, decimals: number | undefined): Cell {
+  if (decimals === undefined || typeof value !== "number") return value;
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function hasAdditive(metrics: string[]): boolean {
+  return metrics.some((m) => !NON_ADDITIVE.test(m));
+}
+
+/** Sum each additive metric; null for the others. */
+function totalsRow(table: ReportTable): ReportRow {
+  const totals: ReportRow = {};
+  for (const metric of table.metrics) {
+    totals[metric] = NON_ADDITIVE.test(metric)
+      ? null
+      : // toPrecision drops float noise such as 6500.5560000000005
+        Number(
+          table.rows
+            .reduce((sum, row) => sum + (typeof row[metric] === "number" ? (row[metric] as number) : 0), 0)
+            .toPrecision(15),
+        );
+  }
+  return totals;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function csvCell(value: Cell | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns: string[], rows: ReportRow[]): string {
+  return [columns, ...rows.map((row) => columns.map((c) => row[c]))]
+    .map((line) => line.map(csvCell).join(","))
+    .join("\n");
+}
+
+function markdownCell(value: Cell | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function toMarkdown(columns: string[], rows: ReportRow[]): string {
+  // Numeric columns are right-aligned
+  const align = columns.map((c) => (rows.some((row) => typeof row[c] === "number") ? "---:" : "---"));
+  return [columns.map(markdownCell), align, ...rows.map((row) => columns.map((c) => markdownCell(row[c])))]
+    .map((line) => `| ${line.join(" | ")} |`)
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a table in the requested format. JSON output is an object;
+ * CSV and Markdown are strings, with the totals as the last row, labelled
+ * in a leading column of their own.
+ * A totals row is only added when there is more than one row to add up.
+ */
+export function formatTable(
+  table: ReportTable,
+  { format = "json", totals = true, decimals, fields, detail }: ReportOptions = {},
+): unknown {
+  const roundRow = (row: ReportRow): ReportRow =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, table.metrics.includes(key) ? round(value, decimals) : value]),
+    );
+
+  const normalised: ReportJson = {
+    dimensions: table.dimensions,
+    metrics: table.metrics,
+    rows: table.rows.map(roundRow),
+  };
+  if (totals && table.rows.length > 1 && hasAdditive(table.metrics)) {
+    normalised.totals = roundRow(totalsRow(table));
+  }
+
+  const shaped = shapeResponse(normalised, { fields, detail }, "computed") as Partial<ReportJson>;
+  // `fields` that picked rows but left totals out: add the totals of the picked metrics back
+  if (normalised.totals && shaped.rows && !shaped.totals) {
+    const picked = table.metrics.filter((m) => shaped.rows!.some((row) => m in row));
+    if (hasAdditive(picked)) shaped.totals = Object.fromEntries(picked.map((m) => [m, normalised.totals![m]]));
+  }
+  if (format === "json") return shaped;
+
+  const rows = shaped.rows ?? [];
+  const totalRow = shaped.totals;
+  const allColumns = [...table.dimensions, ...table.metrics];
+  // The rows show which columns were picked; failing that, the totals. With neither, keep the header
+  const source = rows.length ? rows : totalRow ? [totalRow] : undefined;
+  const columns = source ? allColumns.filter((c) => source.some((row) => c in row)) : allColumns;
+  if (!columns.length) return NO_DATA;
+  if (!totalRow) return format === "csv" ? toCsv(columns, rows) : toMarkdown(columns, rows);
+
+  const lines = [...rows, { [LABEL_COLUMN]: TOTAL_LABEL, ...totalRow }];
+  return format === "csv" ? toCsv([LABEL_COLUMN, ...columns], lines) : toMarkdown([LABEL_COLUMN, ...columns], lines);
+}
+
+/** Normalise an Analytics API report and render it; see formatTable(). */
+export function formatReport(report: unknown, options: ReportOptions = {}): unknown {
+  return formatTable(toReportTable(report), options);
+}
@@ -1,15 +1,24 @@
 /**
  * Resilience module — wraps tool handlers with failure tracking,
- * n8n alerting, and automatic degradation of broken tools.
+ * alerting (see alerts.ts), and automatic degradation of broken tools.
  *
- * Health state is persisted to DATA_DIR/tool-health.json so it
- * survives restarts. When a handler hits FAILURE_THRESHOLD
- * consecutive failures it is marked degraded and an alert is
- * POSTed to the N8N_ALERT_WEBHOOK_URL.
+ * Health state lives in memory, loaded once from DATA_DIR/tool-health.json
+ * at startup and written back in batches (temp file + rename) so it
+ * survives restarts without blocking every call on disk I/O. When a handler hits FAILURE_THRESHOLD
+ * consecutive failures it is marked degraded (circuit open) and an
+ * alert is sent.
+ *
+ * After RESILIENCE_COOLDOWN_SECONDS a degraded handler is half-open:
+ * the next call may try it once. Success closes the circuit and sends
+ * a recovery alert; failure re-opens it for another cooldown.
  */
 
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { readFileSync } from "node:fs";
 import { join } from "node:path";
+import { batchedJsonFile } from "./json-file.js";
+import { ChannelDisconnectedError, QuotaBudgetError, QuotaExceededError, isAccessError, isCallerError } from "./errors.js";
+import { sendAlert, logAlertError } from "./alerts.js";
+import { counter, gauge } from "./metrics.js";
 
 // ---------------------------------------------------------------------------
 // Config
@@ -17,9 +26,10 @@ import { join } from "node:path";
 
 const DATA_DIR = process.env.DATA_DIR || "/data";
 const HEALTH_FILE = join(DATA_DIR, "tool-health.json");
-const N8N_ALERT_WEBHOOK_URL = process.env.N8N_ALERT_WEBHOOK_URL || "";
-const SERVER_URL = process.env.PUBLIC_URL || "";
 const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = Number(process.env.RESILIENCE_COOLDOWN_SECONDS || "300") * 1000;
+/** Changes within this window are written to disk together */
+const FLUSH_DELAY_MS = 1000;
 
 // ---------------------------------------------------------------------------
 // Types
@@ -28,10 +38,14 @@ const FAILURE_THRESHOLD = 3;
 interface HandlerHealth {
   failures: number;
   degraded: boolean;
+  /** When the circuit last opened (degraded, or a half-open trial failed) */
+  degradedAt?: string;
   lastError?: string;
   lastFailure?: string;
 }
 
+type CircuitState = "closed" | "open" | "half-open";
+
 type HealthState = Record<string, HandlerHealth>;
 
 export interface Handler<T = unknown> {
@@ -42,18 +56,14 @@ export interface Handler<T = unknown> {
 export interface McpContent {
   [key: string]: unknown;
   content: Array<{ type: "text"; text: string }>;
+  /** Set on [ERROR], [DISABLED] and [DISCONNECTED] results so clients and metrics see a failed call */
+  isError?: boolean;
 }
 
 // ---------------------------------------------------------------------------
 // State persistence
 // ---------------------------------------------------------------------------
 
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true }); // may throw if fs is read-only
-  }
-}
-
 function loadHealth(): HealthState {
   try {
     const raw = readFileSync(HEALTH_FILE, "utf-8");
@@ -63,92 +73,148 @@ function loadHealth(): HealthState {
   }
 }
 
-function saveHealth(state: HealthState): void {
-  try {
-    ensureDataDir();
-    writeFileSync(HEALTH_FILE, JSON.stringify(state, null, 2), "utf-8");
-  } catch (err) {
-    // Persistence is best-effort — never let it crash tool execution.
-    console.error("[resilience] Failed to persist health state:", err);
-  }
-}
+/** The live health state; the file is only read here, once. */
+const health: HealthState = loadHealth();
+
+// Best-effort, batched writes — never let persistence crash tool execution
+const healthFile = batchedJsonFile(HEALTH_FILE, () => health, FLUSH_DELAY_MS, "resilience");
+const saveHealth = healthFile.save;
+
+/** Write pending health changes now. */
+export const flushHealth = healthFile.flush;
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+const handlerFailures = counter(
+  "mcp_tool_handler_failures_total",
+  "Failed withResilience handler attempts by tool and handler",
+);
+
+gauge("mcp_tool_handler_degraded", "1 if a withResilience handler is degraded, else 0", () =>
+  Object.entries(health).map(([key, h]) => {
+    const [tool, handler] = splitKey(key);
+    return [{ tool, handler }, h.degraded ? 1 : 0];
+  }),
+);
 
 // ---------------------------------------------------------------------------
 // Health helpers
 // ---------------------------------------------------------------------------
 
-function getHandler(state: HealthState, key: string): HandlerHealth {
-  return state[key] ?? { failures: 0, degraded: false };
+function getHandler(key: string): HandlerHealth {
+  return health[key] ?? { failures: 0, degraded: false };
+}
+
+function circuitState(h: HandlerHealth): CircuitState {
+  if (!h.degraded) return "closed";
+  // Records from before the breaker have no degradedAt; lastFailure is close enough
+  const openedAt = Date.parse(h.degradedAt ?? h.lastFailure ?? "");
+  return Number.isNaN(openedAt) || Date.now() - openedAt >= COOLDOWN_MS ? "half-open" : "open";
 }
 
-function recordSuccess(toolName: string, handlerName: string): void {
+/** Handlers with a half-open trial call in progress — only one trial at a time. */
+const trialsInFlight = new Set<string>();
+
+/** Returns true if the handler was degraded, i.e. it just recovered. */
+function recordSuccess(toolName: string, handlerName: string): boolean {
   const key = `${toolName}:${handlerName}`;
-  const state = loadHealth();
-  state[key] = { failures: 0, degraded: false };
-  saveHealth(state);
+  const h = health[key];
+  // Successes on a healthy handler are the common case: nothing to write
+  if (h && h.failures === 0 && !h.degraded) return false;
+  health[key] = { failures: 0, degraded: false };
+  saveHealth();
+  return !!h?.degraded;
 }
 
+/** Returns true if this failure opened the circuit (not if it was already open). */
 function recordFailure(
   toolName: string,
   handlerName: string,
   error: string,
 ): boolean {
   const key = `${toolName}:${handlerName}`;
-  const state = loadHealth();
-  const h = getHandler(state, key);
+  handlerFailures.inc({ tool: toolName, handler: handlerName });
+  const h = getHandler(key);
+  const wasDegraded = h.degraded;
+  const now = new Date().toISOString();
   h.failures += 1;
   h.lastError = error;
-  h.lastFailure = new Date().toISOString();
+  h.lastFailure = now;
   if (h.failures >= FAILURE_THRESHOLD) {
     h.degraded = true;
+    // Opening, or a failed half-open trial: restart the cooldown
+    h.degradedAt = now;
   }
-  state[key] = h;
-  saveHealth(state);
-  return h.degraded;
+  health[key] = h;
+  saveHealth();
+  return h.degraded && !wasDegraded;
 }
 
 export function isDegraded(toolName: string, handlerName: string): boolean {
-  const key = `${toolName}:${handlerName}`;
-  const state = loadHealth();
-  return getHandler(state, key).degraded;
+  return getHandler(`${toolName}:${handlerName}`).degraded;
+}
+
+/** Health of every handler that has a record, keyed by `toolName:handlerName`. */
+export function listHandlerHealth(): HealthState {
+  return structuredClone(health);
+}
+
+export interface HandlerHealthReport extends HandlerHealth {
+  key: string;
+  tool: string;
+  handler: string;
+  circuit: CircuitState;
+  /** When an open circuit becomes half-open */
+  nextTrialAt?: string;
+}
+
+/** Every handler record with its circuit state, optionally for one tool. */
+export function handlerHealthReport(toolName?: string): HandlerHealthReport[] {
+  return Object.entries(health)
+    .map(([key, h]) => {
+      const [tool, handler] = splitKey(key);
+      const circuit = circuitState(h);
+      const openedAt = Date.parse(h.degradedAt ?? h.lastFailure ?? "");
+      return {
+        key,
+        tool,
+        handler,
+        circuit,
+        ...h,
+        ...(circuit === "open" && { nextTrialAt: new Date(openedAt + COOLDOWN_MS).toISOString() }),
+      };
+    })
+    .filter((r) => !toolName || r.tool === toolName);
+}
+
+function splitKey(key: string): [string, string] {
+  const idx = key.indexOf(":");
+  return idx === -1 ? [key, ""] : [key.slice(0, idx), key.slice(idx + 1)];
 }
 
 /**
  * Manually reset a degraded handler so it will be retried.
  */
 export function resetTool(toolName: string, handlerName: string): void {
-  const key = `${toolName}:${handlerName}`;
-  const state = loadHealth();
-  state[key] = { failures: 0, degraded: false };
-  saveHealth(state);
+  resetHealth(toolName, handlerName);
 }
 
-// ---------------------------------------------------------------------------
-// N8n alerting
-// ---------------------------------------------------------------------------
-
-async function alertN8n(
-  tool: string,
-  error: string,
-  failureCount: number,
-): Promise<void> {
-  if (!N8N_ALERT_WEBHOOK_URL) return;
-  try {
-    await fetch(N8N_ALERT_WEBHOOK_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        tool,
-        error,
-        failureCount,
-        timestamp: new Date().toISOString(),
-        serverUrl: SERVER_URL,
-      }),
-    });
-  } catch (err) {
-    // Alerting is best-effort — never let it crash the handler chain.
-    console.error("[resilience] Failed to alert n8n:", err);
+/**
+ * Reset one handler, every handler of one tool, or (with no arguments)
+ * everything. Returns the keys that were reset.
+ */
+export function resetHealth(toolName?: string, handlerName?: string): string[] {
+  const keys = Object.keys(health).filter((key) => {
+    const [tool, handler] = splitKey(key);
+    return (!toolName || tool === toolName) && (!handlerName || handler === handlerName);
+  });
+  for (const key of keys) {
+    health[key] = { failures: 0, degraded: false };
   }
+  if (keys.length) saveHealth();
+  return keys;
 }
 
 // ---------------------------------------------------------------------------
@@ -159,33 +225,46 @@ async function alertN8n(
  * Wraps an ordered list of handlers for a given tool with resilience logic.
  *
  * Handlers are tried in order. Degraded handlers are skipped when a
- * non-degraded fallback exists further down the list. If every handler
- * is degraded, a "[DISABLED]" MCP content response is returned.
+ * non-degraded fallback exists further down the list, unless their
+ * cooldown has passed, in which case one call gets to try them. If every
+ * handler is degraded and none is due a trial, a "[DISABLED]" MCP content
+ * response is returned.
  *
- * On success the handler's failure counter is reset. On failure the
- * counter increments and, if it crosses the threshold, n8n is alerted.
+ * On success the handler's failure counter is reset (with a "recovered"
+ * alert if it was degraded). On failure the counter increments and, if it
+ * crosses the threshold, a "degraded" alert is sent.
  */
 export function withResilience<T>(
   toolName: string,
   handlers: Array<{ name: string; fn: (args: T) => Promise<unknown> }>,
 ): (args: T) => Promise<McpContent> {
   return async (args: T): Promise<McpContent> => {
-    const state = loadHealth();
+    const circuits = handlers.map((h) => circuitState(getHandler(`${toolName}:${h.name}`)));
 
-    // Check if every handler is degraded
-    const allDegraded = handlers.every((h) => {
+    // Disabled when every circuit is open, or half-open with its one trial already running
+    const allDegraded = handlers.every((h, i) => {
       const key = `${toolName}:${h.name}`;
-      return getHandler(state, key).degraded;
+      return circuits[i] === "open" || (circuits[i] === "half-open" && trialsInFlight.has(key));
     });
 
     if (allDegraded) {
+      const nextTrial = Math.min(
+        ...handlers.map((h) => {
+          const handlerHealth = getHandler(`${toolName}:${h.name}`);
+          return Date.parse(handlerHealth.degradedAt ?? handlerHealth.lastFailure ?? "") + COOLDOWN_MS;
+        }),
+      );
+      const wait = Number.isFinite(nextTrial) ? Math.max(0, Math.ceil((nextTrial - Date.now()) / 1000)) : 0;
       return {
         content: [
           {
             type: "text",
-            text: `[DISABLED] Tool "${toolName}" is temporarily disabled — all handlers are degraded. Use resetTool() to re-enable.`,
+            text:
+              `[DISABLED] Tool "${toolName}" is temporarily disabled — all handlers are degraded. ` +
+              `It will be retried automatically in about ${wait}s; an operator can re-enable it now with resetToolHealth.`,
           },
         ],
+        isError: true,
       };
     }
 
@@ -194,17 +273,29 @@ export function withResilience<T>(
     for (let i = 0; i < handlers.length; i++) {
       const handler = handlers[i];
       const key = `${toolName}:${handler.name}`;
-      const health = getHandler(state, key);
       const hasFallback = i < handlers.length - 1;
 
-      // Skip degraded handlers when a fallback exists
-      if (health.degraded && hasFallback) {
+      // A half-open handler gets this call as its trial; other degraded
+      // handlers are skipped when a fallback exists
+      let trial = false;
+      if (circuits[i] === "half-open" && !trialsInFlight.has(key)) {
+        trial = true;
+        trialsInFlight.add(key);
+      } else if (circuits[i] !== "closed" && hasFallback) {
         continue;
       }
 
       try {
         const result = await handler.fn(args);
-        recordSuccess(toolName, handler.name);
+        if (recordSuccess(toolName, handler.name)) {
+          console.error(`[resilience] ${key} recovered`);
+          sendAlert({
+            event: "recovered",
+            severity: "info",
+            source: key,
+            message: "Handler succeeded again after being degraded",
+          }).catch(logAlertError);
+        }
         const text =
           typeof result === "string"
             ? result
@@ -213,22 +304,55 @@ export function withResilience<T>(
           content: [{ type: "text", text }],
         };
       } catch (err) {
+        // A disconnected channel is not the handler's fault, and no fallback
+        // can act as that channel — report it without counting a failure.
+        if (err instanceof ChannelDisconnectedError) {
+          return {
+            content: [{ type: "text", text: `[DISCONNECTED] ${err.message}` }],
+            isError: true,
+          };
+        }
         const errorMsg =
           err instanceof Error ? err.message : String(err);
         lastError = err;
+        // Bad input: a fallback would fail the same way, and the handler
+        // is not broken — report without counting.
+        if (isCallerError(err)) {
+          return {
+            content: [{ type: "text", text: `[ERROR] Tool "${toolName}" failed: ${errorMsg}` }],
+            isError: true,
+          };
+        }
+        // Quota, throttling or permissions: not counted, but a fallback may still work
+        if (isAccessError(err)) {
+          // Budget refusals are alerted by quota.ts; this is Google saying the quota is gone
+          if (err instanceof QuotaExceededError && !(err instanceof QuotaBudgetError)) {
+            sendAlert({
+              event: "quota_exhausted",
+              severity: "critical",
+              source: "youtube-quota",
+              message: `YouTube Data API quota exhausted (seen by ${key}): ${errorMsg}`,
+            }).catch(logAlertError);
+          }
+          continue;
+        }
         const nowDegraded = recordFailure(
           toolName,
           handler.name,
           errorMsg,
         );
         if (nowDegraded) {
-          await alertN8n(
-            `${toolName}:${handler.name}`,
-            errorMsg,
-            FAILURE_THRESHOLD,
-          );
+          sendAlert({
+            event: "degraded",
+            severity: "warning",
+            source: key,
+            message: errorMsg,
+            failureCount: FAILURE_THRESHOLD,
+          }).catch(logAlertError);
         }
         // Continue to next handler
+      } finally {
+        if (trial) trialsInFlight.delete(key);
       }
     }
 
@@ -244,6 +368,7 @@ export function withResilience<T>(
           text: `[ERROR] Tool "${toolName}" failed: ${errorText}`,
         },
       ],
+      isError: true,
     };
   };
 }
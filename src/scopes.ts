@@ -0,0 +1,77 @@
+/**
+ * OAuth scopes for the MCP endpoint and the tools each one unlocks.
+ *
+ * Tools annotated readOnlyHint: false or destructiveHint: true are write
+ * tools; everything else (including the upstream read tools, which carry
+ * no annotations) only needs youtube:read.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { registeredTools } from "./tool-registry.js";
+
+export const SCOPES = ["youtube:read", "youtube:comments:write", "youtube:metadata:write"] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+/** Human-readable descriptions, shown on the consent page. */
+export const SCOPE_DESCRIPTIONS: Record<Scope, string> = {
+  "youtube:read": "Read videos, comments, analytics and discovery data",
+  "youtube:comments:write": "Reply to, edit, delete, moderate and report comments",
+  "youtube:metadata:write": "Change video titles, descriptions, tags and categories",
+};
+
+const WRITE_SCOPES: Scope[] = ["youtube:comments:write", "youtube:metadata:write"];
+
+/** Write tools and the scope that unlocks them. */
+const TOOL_SCOPES: Record<string, Scope> = {
+  deleteComment: "youtube:comments:write",
+  replyToComment: "youtube:comments:write",
+  moderateComment: "youtube:comments:write",
+  updateComment: "youtube:comments:write",
+  markAsSpam: "youtube:comments:write",
+  updateVideoMetadata: "youtube:metadata:write",
+};
+
+/**
+ * Read tools that show other clients' activity. They need full write
+ * access, so read-only tokens (such as the research profile's) never see them.
+ */
+const OPERATOR_READ_TOOLS = new Set(["getAuditLog"]);
+
+/**
+ * Parse a space-delimited scope string. Returns undefined if any scope is
+ * unknown, so callers can answer with invalid_scope rather than silently
+ * granting less than was asked for.
+ */
+export function parseScopes(value: string): Scope[] | undefined {
+  const requested = value.split(/\s+/).filter(Boolean);
+  if (!requested.every((s) => (SCOPES as readonly string[]).includes(s))) return undefined;
+  return SCOPES.filter((s) => requested.includes(s));
+}
+
+/** True for tools that change something on YouTube. */
+export function isWriteTool(toolName: string, annotations?: ToolAnnotations): boolean {
+  return toolName in TOOL_SCOPES || annotations?.readOnlyHint === false || annotations?.destructiveHint === true;
+}
+
+/** Scopes a caller must hold to see and call a tool. */
+export function requiredScopes(toolName: string, annotations?: ToolAnnotations): Scope[] {
+  const explicit = TOOL_SCOPES[toolName];
+  if (explicit) return [explicit];
+  if (OPERATOR_READ_TOOLS.has(toolName)) return WRITE_SCOPES;
+  // A write tool nobody has mapped yet needs full write access until it is
+  return isWriteTool(toolName, annotations) ? WRITE_SCOPES : ["youtube:read"];
+}
+
+/**
+ * Remove every tool the granted scopes do not cover, so it neither shows
+ * up in tools/list nor can be called.
+ */
+export function applyScopes(server: McpServer, granted: readonly Scope[]): void {
+  for (const [name, tool] of Object.entries(registeredTools(server))) {
+    if (!requiredScopes(name, tool.annotations).every((s) => granted.includes(s))) {
+      tool.remove();
+    }
+  }
+}
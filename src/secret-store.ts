@@ -0,0 +1,160 @@
+/**
+ * Secret store — encrypted-at-rest JSON files under DATA_DIR.
+ *
+ * Files are sealed with AES-256-GCM using DATA_ENCRYPTION_KEY. To rotate,
+ * move the old key into DATA_ENCRYPTION_KEY_PREVIOUS (comma-separated) and
+ * set a new DATA_ENCRYPTION_KEY: files sealed with a previous key are
+ * re-encrypted with the current one the next time they are read.
+ *
+ * Without a key, files are written as plain JSON (with a warning), and
+ * plaintext files are encrypted in place once a key is configured.
+ */
+
+import crypto from "node:crypto";
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Keys
+// ---------------------------------------------------------------------------
+
+interface Key {
+  id: string;
+  key: Buffer;
+}
+
+/** Keys may be any string; they are stretched to 32 bytes with sha256. Use 32+ random bytes. */
+function deriveKey(secret: string): Key {
+  const key = crypto.createHash("sha256").update(secret, "utf-8").digest();
+  // The key ID is a hash of the key, so it identifies without revealing it
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 12);
+  return { id, key };
+}
+
+const currentKey = process.env.DATA_ENCRYPTION_KEY ? deriveKey(process.env.DATA_ENCRYPTION_KEY) : undefined;
+const previousKeys = (process.env.DATA_ENCRYPTION_KEY_PREVIOUS ?? "")
+  .split(",")
+  .map((k) => k.trim())
+  .filter(Boolean)
+  .map(deriveKey);
+
+if (!currentKey) {
+  console.error("[secret-store] DATA_ENCRYPTION_KEY not set — credentials under DATA_DIR are stored in plaintext");
+}
+
+// ---------------------------------------------------------------------------
+// Envelope
+// ---------------------------------------------------------------------------
+
+interface Envelope {
+  encrypted: "aes-256-gcm";
+  kid: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class SecretStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretStoreError";
+  }
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return typeof value === "object" && value !== null && (value as Envelope).encrypted === "aes-256-gcm";
+}
+
+function seal(plaintext: string, key: Key): Envelope {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key.key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return {
+    encrypted: "aes-256-gcm",
+    kid: key.id,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function unseal(envelope: Envelope, path: string): string {
+  const key = [currentKey, ...previousKeys].find((k) => k?.id === envelope.kid);
+  if (!key) {
+    throw new SecretStoreError(
+      `${path} is encrypted with key ${envelope.kid}, which is neither DATA_ENCRYPTION_KEY nor in DATA_ENCRYPTION_KEY_PREVIOUS`,
+    );
+  }
+  try {
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key.key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new SecretStoreError(`${path} failed integrity check — the file is corrupt or was tampered with`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Read / write
+// ---------------------------------------------------------------------------
+
+/** True when DATA_ENCRYPTION_KEY is set, so secret files are sealed rather than plaintext. */
+export function isEncryptionEnabled(): boolean {
+  return currentKey !== undefined;
+}
+
+/** The file contents writeSecretFile() writes for a value, for callers that write it themselves. */
+export function secretFileContents(value: unknown): string {
+  const json = JSON.stringify(value, null, 2);
+  return currentKey ? JSON.stringify(seal(json, currentKey)) : json;
+}
+
+/**
+ * Write a JSON value, encrypted when a key is configured. The write goes to
+ * a temp file first and is renamed into place, so a crash never leaves a
+ * half-written secret file behind.
+ */
+export function writeSecretFile(path: string, value: unknown): void {
+  const contents = secretFileContents(value);
+  const dir = dirname(path);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, contents, { encoding: "utf-8", mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+/**
+ * Read a JSON value written by writeSecretFile (or a legacy plaintext file).
+ * Returns undefined if the file does not exist. Throws SecretStoreError if
+ * it cannot be decrypted — callers must not fall back to an empty store, or
+ * the next write would destroy the undecryptable data.
+ */
+export function readSecretFile<T>(path: string): T | undefined {
+  if (!existsSync(path)) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new SecretStoreError(`${path} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+  }
+
+  if (!isEnvelope(parsed)) {
+    // Legacy plaintext — seal it now that a key exists
+    if (currentKey) rewrite(path, parsed, "plaintext");
+    return parsed as T;
+  }
+
+  const value = JSON.parse(unseal(parsed, path)) as T;
+  if (currentKey && parsed.kid !== currentKey.id) rewrite(path, value, `key ${parsed.kid}`);
+  return value;
+}
+
+function rewrite(path: string, value: unknown, from: string): void {
+  try {
+    writeSecretFile(path, value);
+    console.error(`[secret-store] Re-encrypted ${path} (was ${from})`);
+  } catch (err) {
+    // Reading still succeeded; the rewrite is retried on the next load.
+    console.error(`[secret-store] Failed to re-encrypt ${path}:`, err);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Builds the MCP server — the upstream read tools plus our own tool groups —
+ * for one session. Shared by the HTTP (index.ts) and stdio (stdio.ts) entry points.
+ */
+
+// @ts-ignore — accessing unexported internals of @kirbah/mcp-youtube
+import { createMcpServer } from "@kirbah/mcp-youtube/dist/server.js";
+// @ts-ignore
+import { initializeContainer } from "@kirbah/mcp-youtube/dist/container.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthInfo } from "./oauth.js";
+import { registerWriteTools } from "./write-tools.js";
+import { registerAnalyticsTools } from "./analytics-tools.js";
+import { registerDiscoveryTools } from "./discovery-tools.js";
+import { registerOpsTools } from "./ops-tools.js";
+import { applyScopes } from "./scopes.js";
+import { applyResponseShaping } from "./trim.js";
+import { registeredTools } from "./tool-registry.js";
+import { applyRateLimits } from "./rate-limit.js";
+import { instrumentTools } from "./metrics.js";
+import { applyAuditLog } from "./audit.js";
+import { applyQuotaAttribution } from "./quota.js";
+import { applyCacheControl } from "./cache.js";
+import { applyProfile, getProfile, listProfiles, DEFAULT_PROFILE } from "./profiles.js";
+
+const API_KEY = process.env.YOUTUBE_API_KEY;
+
+/** Exit on configuration every transport needs. */
+export function checkServerEnv(): void {
+  if (!API_KEY) {
+    console.error("ERROR: YOUTUBE_API_KEY required");
+    process.exit(1);
+  }
+  if (!getProfile(DEFAULT_PROFILE)) {
+    console.error(`ERROR: MCP_TOOL_PROFILE must be one of: ${listProfiles().join(", ")}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Build a server with every tool group, limited to the tools the caller's
+ * scopes allow and to its tool profile. A profile pinned on the OAuth client
+ * and one requested with ?profile= both apply; without either, the
+ * deployment default does.
+ */
+export function buildServer(auth: AuthInfo, requestedProfile?: string): McpServer {
+  const container = initializeContainer({ apiKey: API_KEY as string });
+  const server = createMcpServer(container) as McpServer;
+  // Only the upstream tools are registered so far; ours take fields/detail themselves
+  applyResponseShaping(server, Object.keys(registeredTools(server)));
+  registerWriteTools(server);
+  registerAnalyticsTools(server);
+  registerDiscoveryTools(server);
+  registerOpsTools(server, auth);
+  applyScopes(server, auth.scopes);
+  const profiles = [auth.profile, requestedProfile].filter((p): p is string => !!p);
+  for (const profile of profiles.length ? profiles : [DEFAULT_PROFILE]) {
+    applyProfile(server, profile);
+  }
+  applyAuditLog(server, auth.clientId);
+  applyQuotaAttribution(server);
+  applyCacheControl(server);
+  applyRateLimits(server, auth);
+  // Outermost, so rate-limited calls are counted and timed too
+  instrumentTools(server);
+  return server;
+}
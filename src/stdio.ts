@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+/**
+ * stdio entry point — serves the same tools over stdin/stdout for local
+ * use from Claude Desktop or an IDE. There is no HTTP listener and no
+ * OAuth: whoever starts the process gets every scope, so only
+ * YOUTUBE_API_KEY (and the YouTube OAuth vars, for write/analytics tools)
+ * are needed.
+ *
+ * Run with `node dist/stdio.js` or `node dist/index.js --stdio`. stdout
+ * carries the protocol, so everything else must log to stderr.
+ */
+
+import { fileURLToPath } from "node:url";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SCOPES } from "./scopes.js";
+import { buildServer, checkServerEnv } from "./server.js";
+
+export async function runStdio(): Promise<void> {
+  checkServerEnv();
+  const server = buildServer({ clientId: "stdio", grantId: "stdio", scopes: [...SCOPES] });
+  await server.connect(new StdioServerTransport());
+  // Background timers would otherwise keep the process alive after the client goes away
+  process.stdin.on("close", () => process.exit(0));
+  console.error("YouTube MCP server on stdio");
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  runStdio().catch((err) => {
+    console.error("Server error:", err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,36 @@
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+
+/**
+ * Every tool registered on a server, keyed by name — including the upstream
+ * @kirbah/mcp-youtube tools we never get a RegisteredTool handle for.
+ * McpServer keeps this map private, so we reach in once here.
+ */
+export function registeredTools(server: McpServer): Record<string, RegisteredTool> {
+  return (server as unknown as { _registeredTools: Record<string, RegisteredTool> })._registeredTools;
+}
+
+/**
+ * A plain tool callback as the SDK invokes it: `(args, extra)` for tools
+ * with an input schema, `(extra)` for tools without one.
+ */
+export type ToolCallbackFn = (
+  ...args: Parameters<ToolCallback<ZodRawShapeCompat>> | Parameters<ToolCallback>
+) => ReturnType<ToolCallback>;
+
+/**
+ * Replace each tool's callback with `wrap(name, tool, callback)`, e.g. to
+ * meter or gate every call the same way. Call before server.connect().
+ */
+export function wrapToolCallbacks(
+  server: McpServer,
+  wrap: (name: string, tool: RegisteredTool, callback: ToolCallbackFn) => ToolCallbackFn,
+): void {
+  for (const [name, tool] of Object.entries(registeredTools(server))) {
+    const handler = tool.handler;
+    // Task-based handlers ({ createTask, ... }) are not plain callbacks; none of ours are.
+    if (typeof handler !== "function") continue;
+    // The SDK invokes the handler with the arity its schema implies, which the union type can't tell us
+    tool.update({ callback: wrap(name, tool, handler as ToolCallbackFn) });
+  }
+}
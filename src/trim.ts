@@ -1,3 +1,33 @@
+/**
+ * Response shaping for read tools — how much of each API response the
+ * model gets to see.
+ *
+ * `detail` picks a preset: "minimal" also drops long or bulky fields
+ * (descriptions, tags, thumbnails), "standard" strips API noise (the
+ * default, and what trimResponse does), "full" returns the response as is.
+ * `fields` projects the response onto the paths asked for, given as dotted
+ * paths ("items.snippet.title") or a Google-style fields mask
+ * ("items(id,snippet/title)"), and takes precedence over `detail`.
+ */
+
+import { z } from "zod";
+import * as z3 from "zod/v3";
+import type { McpServer, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  getObjectShape,
+  isZ4Schema,
+  type AnyObjectSchema,
+  type ZodRawShapeCompat,
+} from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import { registeredTools, wrapToolCallbacks } from "./tool-registry.js";
+
+// ---------------------------------------------------------------------------
+// Detail levels
+// ---------------------------------------------------------------------------
+
+export type DetailLevel = "minimal" | "standard" | "full";
+
 /** Keys to strip from YouTube API responses. */
 const STRIP_KEYS = new Set([
   "etag", "kind", "pageInfo", "nextPageToken", "prevPageToken",
@@ -5,23 +35,27 @@ const STRIP_KEYS = new Set([
   "recordingDetails", "fileDetails", "processingDetails", "suggestions",
 ]);
 
+/** Also stripped at "minimal": long text and nested detail blocks. */
+const MINIMAL_EXTRA_KEYS = [
+  "description", "tags", "thumbnails", "topicDetails", "player",
+  "localizations", "liveStreamingDetails", "textOriginal",
+];
+const MINIMAL_STRIP_KEYS = new Set([...STRIP_KEYS, ...MINIMAL_EXTRA_KEYS]);
+const MINIMAL_COMPUTED_KEYS = new Set(MINIMAL_EXTRA_KEYS);
+
 /** Thumbnail sizes to keep (drop the rest). */
 const KEEP_THUMBS = new Set(["medium"]);
 
-/**
- * Recursively strip noise from a YouTube API response.
- * Returns a cleaned copy without mutating input.
- */
-export function trimResponse(data: unknown): unknown {
+function strip(data: unknown, keys: Set<string>): unknown {
   if (data === null || data === undefined) return data;
-  if (Array.isArray(data)) return data.map(trimResponse);
+  if (Array.isArray(data)) return data.map((item) => strip(item, keys));
   if (typeof data !== "object") return data;
 
   const obj = data as Record<string, unknown>;
   const result: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(obj)) {
-    if (STRIP_KEYS.has(key)) continue;
+    if (keys.has(key)) continue;
 
     if (key === "thumbnails" && typeof value === "object" && value !== null) {
       const thumbs = value as Record<string, unknown>;
@@ -35,8 +69,214 @@ export function trimResponse(data: unknown): unknown {
       continue;
     }
 
-    result[key] = trimResponse(value);
+    result[key] = strip(value, keys);
   }
 
   return result;
 }
+
+/**
+ * Recursively strip noise from a YouTube API response.
+ * Returns a cleaned copy without mutating input.
+ */
+export function trimResponse(data: unknown): unknown {
+  return strip(data, STRIP_KEYS);
+}
+
+// ---------------------------------------------------------------------------
+// Field projection
+// ---------------------------------------------------------------------------
+
+/** Selected keys; `true` keeps the whole value, `*` matches any key. */
+type FieldTree = { [key: string]: FieldTree | true };
+
+/**
+ * Parse one fields spec: a Google fields mask, where `a/b` selects a
+ * nested field and `a(b,c)` several, with `.` accepted in place of `/`.
+ * Throws on unbalanced parentheses or empty names.
+ */
+function parseMask(input: string, into: FieldTree): void {
+  let pos = 0;
+  const fail = (): never => {
+    throw new Error(`Invalid fields mask at position ${pos}: "${input}"`);
+  };
+
+  function child(node: FieldTree, key: string): FieldTree {
+    const existing = node[key];
+    // Already selected whole; anything narrower is covered
+    if (existing === true) return {};
+    return (node[key] = existing ?? {});
+  }
+
+  function list(node: FieldTree, nested: boolean): void {
+    for (;;) {
+      const path: string[] = [];
+      let name = "";
+      for (; pos < input.length && !",()".includes(input[pos]); pos++) {
+        if (input[pos] === "/" || input[pos] === ".") {
+          path.push(name.trim());
+          name = "";
+        } else {
+          name += input[pos];
+        }
+      }
+      path.push(name.trim());
+      if (path.some((p) => !p)) fail();
+
+      let target = node;
+      for (const key of path.slice(0, -1)) target = child(target, key);
+      const last = path[path.length - 1];
+      if (input[pos] === "(") {
+        pos++;
+        list(child(target, last), true);
+        if (input[pos] !== ")") fail();
+        pos++;
+      } else {
+        target[last] = true;
+      }
+
+      if (input[pos] === ",") {
+        pos++;
+        continue;
+      }
+      if (pos >= input.length ? nested : input[pos] !== ")" || !nested) fail();
+      return;
+    }
+  }
+
+  list(into, false);
+}
+
+function parseFields(fields: string | string[]): FieldTree {
+  const tree: FieldTree = {};
+  for (const spec of Array.isArray(fields) ? fields : [fields]) {
+    if (spec.trim()) parseMask(spec.replace(/\s+/g, ""), tree);
+  }
+  return tree;
+}
+
+function project(data: unknown, tree: FieldTree): unknown {
+  // Arrays are transparent: "items.id" selects id in every item
+  if (Array.isArray(data)) return data.map((item) => project(item, tree));
+  if (data === null || typeof data !== "object") return data;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+    const selected = tree[key] ?? tree["*"];
+    if (selected === undefined) continue;
+    result[key] = selected === true ? value : project(value, selected);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Tool arguments
+// ---------------------------------------------------------------------------
+
+export interface ShapeOptions {
+  fields?: string | string[];
+  detail?: DetailLevel;
+}
+
+function isValidFields(fields: string | string[]): boolean {
+  try {
+    parseFields(fields);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const FIELDS_INVALID = "fields must be dotted paths or a fields mask like 'items(id,snippet/title)'";
+const FIELDS_DESCRIPTION =
+  "Only return these fields: dotted paths (e.g. ['items.id', 'items.snippet.title']) or a Google " +
+  "fields mask (e.g. 'items(id,snippet/title)'). Overrides detail.";
+const DETAIL_DESCRIPTION =
+  "How much of the response to return: 'minimal' drops descriptions, tags and thumbnails; " +
+  "'standard' (default) strips API noise; 'full' returns everything";
+
+/** Optional `fields` tool argument for read tools. */
+export const fieldsParam = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .refine((f) => f === undefined || isValidFields(f), { message: FIELDS_INVALID })
+  .describe(FIELDS_DESCRIPTION);
+
+/** Optional `detail` tool argument for read tools. */
+export const detailParam = z.enum(["minimal", "standard", "full"]).optional().describe(DETAIL_DESCRIPTION);
+
+/** The same two arguments for zod v3 schemas; the SDK cannot mix zod versions in one input schema */
+const shapeParamsV3 = {
+  fields: z3
+    .union([z3.string(), z3.array(z3.string())])
+    .optional()
+    .refine((f) => f === undefined || isValidFields(f), { message: FIELDS_INVALID })
+    .describe(FIELDS_DESCRIPTION),
+  detail: z3.enum(["minimal", "standard", "full"]).optional().describe(DETAIL_DESCRIPTION),
+};
+
+/**
+ * Apply a read tool's `fields` and `detail` arguments to its result.
+ * Results the tool built itself ("computed") carry no API noise, so
+ * "standard" leaves them alone and "minimal" only drops the bulky fields.
+ */
+export function shapeResponse(
+  data: unknown,
+  { fields, detail = "standard" }: ShapeOptions = {},
+  source: "api" | "computed" = "api",
+): unknown {
+  const tree = fields ? parseFields(fields) : {};
+  if (Object.keys(tree).length) return project(data, tree);
+  if (detail === "full") return data;
+  if (source === "computed") return detail === "minimal" ? strip(data, MINIMAL_COMPUTED_KEYS) : data;
+  return strip(data, detail === "minimal" ? MINIMAL_STRIP_KEYS : STRIP_KEYS);
+}
+
+// ---------------------------------------------------------------------------
+// Tools registered elsewhere
+// ---------------------------------------------------------------------------
+
+/** Shape the JSON in each text block of a tool result; other text is left as is. */
+function shapeToolResult(result: CallToolResult, shape: ShapeOptions): CallToolResult {
+  if (result.isError) return result;
+  const content = result.content.map((block) => {
+    if (block.type !== "text") return block;
+    let data: unknown;
+    try {
+      data = JSON.parse(block.text);
+    } catch {
+      return block;
+    }
+    return { ...block, text: JSON.stringify(shapeResponse(data, shape), null, 2) };
+  });
+  return { ...result, content };
+}
+
+/**
+ * Give tools we don't own — the upstream read tools — the `fields` and
+ * `detail` arguments, applied to the JSON text they return. Tools without
+ * an input schema are skipped: adding one would change how the SDK calls them.
+ */
+export function applyResponseShaping(server: McpServer, toolNames: string[]): void {
+  const tools = registeredTools(server);
+  const shaped = new Set<string>();
+  for (const name of toolNames) {
+    const shape = getObjectShape(tools[name]?.inputSchema as AnyObjectSchema | undefined);
+    if (!shape || "fields" in shape || "detail" in shape) continue;
+    const v3 = Object.values(shape).some((s) => !isZ4Schema(s));
+    tools[name].update({ paramsSchema: { ...shape, ...(v3 ? shapeParamsV3 : { fields: fieldsParam, detail: detailParam }) } });
+    shaped.add(name);
+  }
+
+  wrapToolCallbacks(server, (name, _tool, callback) => {
+    if (!shaped.has(name)) return callback;
+    return async (...args) => {
+      // Only tools with an input schema are shaped, so the SDK passes (args, extra)
+      const [toolArgs, extra] = args as Parameters<ToolCallback<ZodRawShapeCompat>>;
+      const { fields, detail, ...rest } = toolArgs as Record<string, unknown> & ShapeOptions;
+      // The upstream tool never sees the arguments it doesn't know
+      const result = (await callback(rest, extra)) as CallToolResult;
+      return fields || detail ? shapeToolResult(result, { fields, detail }) : result;
+    };
+  });
+}
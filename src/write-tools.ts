@@ -1,32 +1,45 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getYouTubeAccessToken } from "./youtube-token.js";
-import { trimResponse } from "./trim.js";
+import { trimResponse, shapeResponse, fieldsParam, detailParam } from "./trim.js";
+import { formatReport, formatParam, totalsParam, decimalsParam } from "./report-format.js";
+import { apiFetch } from "./api-fetch.js";
+import { cachedFetch, invalidateCache, bypassCacheParam, type CachedRequestInit } from "./cache.js";
+import { resolveChannel } from "./channels.js";
+import { apiError, NotFoundError } from "./errors.js";
 
 export const YT_API = "https://www.googleapis.com/youtube/v3";
 export const YT_ANALYTICS_API = "https://youtubeanalytics.googleapis.com/v2";
 
-/** Call the YouTube API with an OAuth Bearer token. Returns parsed JSON or throws. */
-export async function ytFetch(url: string, options: RequestInit = {}, channelId?: string): Promise<unknown> {
-  const token = await getYouTubeAccessToken(channelId);
-  const res = await fetch(url, {
+/** Optional `channel` tool argument — which registered channel's OAuth token to act as. */
+export const channelParam = z
+  .string()
+  .optional()
+  .describe(
+    "Channel to act as: alias (e.g. 'hpl'), @handle or UC… channel ID. Omit for the default channel. " +
+      "See listConnectedChannels."
+  );
+
+/**
+ * Call the YouTube API with an OAuth Bearer token. Returns parsed JSON or
+ * throws a typed YouTubeApiError (see errors.ts); transient failures are
+ * retried first. GETs go through the response cache, per channel.
+ */
+export async function ytFetch(url: string, options: CachedRequestInit = {}, channel?: string): Promise<unknown> {
+  const token = await getYouTubeAccessToken(channel);
+  const scope = `channel:${resolveChannel(channel).id ?? channel ?? "default"}`;
+  const res = await cachedFetch(url, {
     ...options,
     headers: {
       Authorization: `Bearer ${token}`,
       "Content-Type": "application/json",
       ...(options.headers ?? {}),
     },
-  });
+  }, scope);
   // 204 No Content (delete, moderate, markAsSpam)
   if (res.status === 204) return { success: true };
-  const body = await res.json();
-  if (!res.ok) {
-    const msg =
-      (body as { error?: { message?: string } })?.error?.message ??
-      JSON.stringify(body);
-    throw new Error(`YouTube API error (${res.status}): ${msg}`);
-  }
-  return body;
+  if (!res.ok) throw await apiError(res);
+  return res.json();
 }
 
 export function registerWriteTools(server: McpServer): void {
@@ -62,10 +75,13 @@ export function registerWriteTools(server: McpServer): void {
           .enum(["SNIPPET", "FULL"])
           .default("FULL")
           .describe("'SNIPPET' truncates at 200 chars; 'FULL' returns complete text"),
+        bypassCache: bypassCacheParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    async ({ channelId, maxResults, order, commentDetail }) => {
+    async ({ channelId, maxResults, order, commentDetail, fields, detail }) => {
       const url = new URL(`${YT_API}/commentThreads`);
       url.searchParams.set("part", "snippet");
       url.searchParams.set("allThreadsRelatedToChannelId", channelId);
@@ -73,13 +89,8 @@ export function registerWriteTools(server: McpServer): void {
       url.searchParams.set("order", order);
       url.searchParams.set("key", apiKey);
 
-      const res = await fetch(url.toString());
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({})) as { error?: { message?: string } };
-        throw new Error(
-          `YouTube API error (${res.status}): ${err?.error?.message ?? "unknown"}`
-        );
-      }
+      const res = await cachedFetch(url.toString());
+      if (!res.ok) throw await apiError(res);
 
       const data = (await res.json()) as { items?: Record<string, unknown>[] };
       const comments = (data.items ?? []).map((thread) => {
@@ -105,7 +116,7 @@ export function registerWriteTools(server: McpServer): void {
 
       return {
         content: [
-          { type: "text" as const, text: JSON.stringify(trimResponse(comments), null, 2) },
+          { type: "text" as const, text: JSON.stringify(shapeResponse(comments, { fields, detail }), null, 2) },
         ],
       };
     }
@@ -124,13 +135,15 @@ export function registerWriteTools(server: McpServer): void {
           .string()
           .min(1)
           .describe("Comment ID to delete"),
+        channel: channelParam,
       },
       annotations: { destructiveHint: true, idempotentHint: false },
     },
-    async ({ commentId }) => {
+    async ({ commentId, channel }) => {
       const url = new URL(`${YT_API}/comments`);
       url.searchParams.set("id", commentId);
-      await ytFetch(url.toString(), { method: "DELETE" });
+      await ytFetch(url.toString(), { method: "DELETE" }, channel);
+      invalidateCache({ ids: [commentId], resources: ["commentThreads"] });
       return {
         content: [
           { type: "text" as const, text: `Comment ${commentId} deleted.` },
@@ -146,7 +159,7 @@ export function registerWriteTools(server: McpServer): void {
       description:
         "Post a reply to a YouTube comment as the channel owner. " +
         "parentId is the top-level commentId from getVideoComments or getChannelComments. " +
-        "Use channelId to post as a specific brand account (e.g. High Performance Longevity) " +
+        "Use channel to post as a specific brand account (e.g. 'hpl' for High Performance Longevity) " +
         "when the authenticated Google account owns multiple channels.",
       inputSchema: {
         parentId: z
@@ -154,22 +167,18 @@ export function registerWriteTools(server: McpServer): void {
           .min(1)
           .describe("The commentId of the top-level comment to reply to"),
         text: z.string().min(1).describe("Text content of the reply"),
-        channelId: z
-          .string()
-          .optional()
-          .describe(
-            "Channel ID to post as (for brand accounts). Omit to use the default authenticated channel."
-          ),
+        channel: channelParam,
       },
       annotations: { readOnlyHint: false, idempotentHint: false },
     },
-    async ({ parentId, text, channelId }) => {
+    async ({ parentId, text, channel }) => {
       const url = new URL(`${YT_API}/comments`);
       url.searchParams.set("part", "snippet");
       const body = await ytFetch(url.toString(), {
         method: "POST",
         body: JSON.stringify({ snippet: { parentId, textOriginal: text } }),
-      }, channelId);
+      }, channel);
+      invalidateCache({ ids: [parentId], resources: ["commentThreads"] });
       return {
         content: [{ type: "text" as const, text: JSON.stringify(trimResponse(body), null, 2) }],
       };
@@ -195,15 +204,17 @@ export function registerWriteTools(server: McpServer): void {
           .describe(
             "If true, prevent the author from commenting on any of your videos"
           ),
+        channel: channelParam,
       },
       annotations: { readOnlyHint: false, idempotentHint: true },
     },
-    async ({ commentId, status, banAuthor }) => {
+    async ({ commentId, status, banAuthor, channel }) => {
       const url = new URL(`${YT_API}/comments/setModerationStatus`);
       url.searchParams.set("id", commentId);
       url.searchParams.set("moderationStatus", status);
       if (banAuthor) url.searchParams.set("banAuthor", "true");
-      await ytFetch(url.toString(), { method: "POST" });
+      await ytFetch(url.toString(), { method: "POST" }, channel);
+      invalidateCache({ ids: [commentId], resources: ["commentThreads"] });
       return {
         content: [
           {
@@ -229,10 +240,11 @@ export function registerWriteTools(server: McpServer): void {
           .min(1)
           .describe("ID of the comment/reply to edit"),
         text: z.string().min(1).describe("New text content"),
+        channel: channelParam,
       },
       annotations: { readOnlyHint: false, idempotentHint: true },
     },
-    async ({ commentId, text }) => {
+    async ({ commentId, text, channel }) => {
       const url = new URL(`${YT_API}/comments`);
       url.searchParams.set("part", "snippet");
       const body = await ytFetch(url.toString(), {
@@ -241,7 +253,8 @@ export function registerWriteTools(server: McpServer): void {
           id: commentId,
           snippet: { textOriginal: text },
         }),
-      });
+      }, channel);
+      invalidateCache({ ids: [commentId], resources: ["commentThreads"] });
       return {
         content: [{ type: "text" as const, text: JSON.stringify(trimResponse(body), null, 2) }],
       };
@@ -259,13 +272,15 @@ export function registerWriteTools(server: McpServer): void {
           .string()
           .min(1)
           .describe("Comment ID to flag as spam"),
+        channel: channelParam,
       },
       annotations: { readOnlyHint: false, idempotentHint: true },
     },
-    async ({ commentId }) => {
+    async ({ commentId, channel }) => {
       const url = new URL(`${YT_API}/comments/markAsSpam`);
       url.searchParams.set("id", commentId);
-      await ytFetch(url.toString(), { method: "POST" });
+      await ytFetch(url.toString(), { method: "POST" }, channel);
+      invalidateCache({ ids: [commentId], resources: ["commentThreads"] });
       return {
         content: [
           {
@@ -306,27 +321,28 @@ export function registerWriteTools(server: McpServer): void {
           .string()
           .optional()
           .describe("YouTube category ID (omit to keep current)"),
+        channel: channelParam,
       },
       annotations: { readOnlyHint: false, idempotentHint: true },
     },
-    async ({ videoId, title, description, tags, categoryId }) => {
-      // Fetch current snippet first — videos.update requires the full snippet
-      const token = await getYouTubeAccessToken();
+    async ({ videoId, title, description, tags, categoryId, channel }) => {
+      // Fetch current snippet first — videos.update requires the full snippet.
+      // Straight from the API, never the cache: a stale snippet would overwrite newer edits.
+      const token = await getYouTubeAccessToken(channel);
       const getUrl = new URL(`${YT_API}/videos`);
       getUrl.searchParams.set("part", "snippet");
       getUrl.searchParams.set("id", videoId);
 
-      const getRes = await fetch(getUrl.toString(), {
+      const getRes = await apiFetch(getUrl.toString(), {
         headers: { Authorization: `Bearer ${token}` },
       });
-      if (!getRes.ok)
-        throw new Error(`Failed to fetch video ${videoId}: ${getRes.status}`);
+      if (!getRes.ok) throw await apiError(getRes);
 
       const getData = (await getRes.json()) as {
         items?: { snippet: Record<string, unknown> }[];
       };
       const current = getData.items?.[0]?.snippet;
-      if (!current) throw new Error(`Video ${videoId} not found`);
+      if (!current) throw new NotFoundError(`Video ${videoId} not found`, 404);
 
       const updatedSnippet = {
         ...current,
@@ -341,7 +357,8 @@ export function registerWriteTools(server: McpServer): void {
       const body = await ytFetch(putUrl.toString(), {
         method: "PUT",
         body: JSON.stringify({ id: videoId, snippet: updatedSnippet }),
-      });
+      }, channel);
+      invalidateCache({ ids: [videoId] });
       return {
         content: [{ type: "text" as const, text: JSON.stringify(trimResponse(body), null, 2) }],
       };
@@ -379,10 +396,17 @@ export function registerWriteTools(server: McpServer): void {
           .string()
           .default("day")
           .describe("Grouping dimension: 'day', 'month', 'video', etc."),
+        channel: channelParam,
+        bypassCache: bypassCacheParam,
+        format: formatParam,
+        totals: totalsParam,
+        decimals: decimalsParam,
+        fields: fieldsParam,
+        detail: detailParam,
       },
       annotations: { readOnlyHint: true, idempotentHint: true },
     },
-    async ({ videoId, metrics, startDate, endDate, dimensions }) => {
+    async ({ videoId, metrics, startDate, endDate, dimensions, channel, ...options }) => {
       const url = new URL(`${YT_ANALYTICS_API}/reports`);
       url.searchParams.set("ids", "channel==MINE");
       url.searchParams.set("metrics", metrics.join(","));
@@ -391,9 +415,9 @@ export function registerWriteTools(server: McpServer): void {
       url.searchParams.set("dimensions", dimensions);
       if (videoId) url.searchParams.set("filters", `video==${videoId}`);
 
-      const body = await ytFetch(url.toString());
+      const report = formatReport(await ytFetch(url.toString(), {}, channel), options);
       return {
-        content: [{ type: "text" as const, text: JSON.stringify(trimResponse(body), null, 2) }],
+        content: [{ type: "text" as const, text: typeof report === "string" ? report : JSON.stringify(report, null, 2) }],
       };
     }
   );
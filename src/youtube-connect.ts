@@ -0,0 +1,200 @@
+/**
+ * Browser flow for connecting (or reconnecting) a YouTube channel.
+ *
+ *   GET  /connect/youtube           — operator password form
+ *   POST /connect/youtube           — starts Google's consent flow
+ *   GET  /connect/youtube/callback  — exchanges the code, identifies the
+ *                                     channel via channels?mine=true and
+ *                                     stores its refresh token in the registry
+ *
+ * The redirect URI `${PUBLIC_URL}/connect/youtube/callback` must be listed on
+ * the Google OAuth client (YOUTUBE_CLIENT_ID).
+ */
+
+import crypto from "node:crypto";
+import { escapeHtml, sendPage } from "./html.js";
+import type { PasswordCheck } from "./oauth.js";
+import { saveChannel, channelLabel } from "./channels.js";
+import { YT_API } from "./write-tools.js";
+
+const GOOGLE_AUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const GOOGLE_SCOPES = [
+  "https://www.googleapis.com/auth/youtube",
+  "https://www.googleapis.com/auth/youtube.force-ssl",
+  "https://www.googleapis.com/auth/yt-analytics.readonly",
+];
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface ConnectConfig {
+  publicUrl: string;
+  /** Same operator password check, and per-IP attempt limit, as the OAuth consent page */
+  checkPassword: (req: any, password: unknown) => PasswordCheck;
+}
+
+interface PendingConnect {
+  codeVerifier: string;
+  alias?: string;
+  makeDefault: boolean;
+  expiresAt: number;
+}
+
+function renderForm(res: any, status: number, error?: string): void {
+  sendPage(
+    res,
+    status,
+    "Connect a YouTube channel",
+    `<p>Sign in with the Google account that owns the channel. For brand accounts, pick the channel on Google's account chooser.</p>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+<form method="post" action="/connect/youtube">
+<label for="alias">Alias (optional, e.g. <code>hpl</code>)</label>
+<input type="text" id="alias" name="alias" pattern="[A-Za-z0-9_-]+">
+<label><input type="checkbox" name="default" value="true"> Make this the default channel</label>
+<p></p>
+<label for="password">Operator password</label>
+<input type="password" id="password" name="password" autocomplete="current-password">
+<button type="submit">Continue to Google</button>
+</form>`,
+  );
+}
+
+export function setupYouTubeConnect(app: any, config: ConnectConfig): void {
+  const pending = new Map<string, PendingConnect>();
+  const redirectUri = `${config.publicUrl}/connect/youtube/callback`;
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [state, p] of pending) {
+      if (p.expiresAt < now) pending.delete(state);
+    }
+  }, 60_000);
+
+  app.get("/connect/youtube", (_req: any, res: any) => {
+    renderForm(res, 200);
+  });
+
+  app.post("/connect/youtube", (req: any, res: any) => {
+    const clientId = process.env.YOUTUBE_CLIENT_ID;
+    if (!clientId || !process.env.YOUTUBE_CLIENT_SECRET) {
+      renderForm(res, 500, "YOUTUBE_CLIENT_ID and YOUTUBE_CLIENT_SECRET are not configured.");
+      return;
+    }
+    const password = config.checkPassword(req, req.body?.password);
+    if (!password.ok && password.retryAfter) {
+      console.error(`[connect] Refused channel connect: too many bad passwords from ${req.ip}`);
+      res.setHeader("Retry-After", String(password.retryAfter));
+      renderForm(res, 429, `Too many incorrect passwords. Try again in ${Math.ceil(password.retryAfter / 60)} min.`);
+      return;
+    }
+    if (!password.ok) {
+      console.error("[connect] Rejected channel connect: bad operator password");
+      renderForm(res, 401, "Incorrect password.");
+      return;
+    }
+    const alias = typeof req.body?.alias === "string" ? req.body.alias.trim() : "";
+    if (alias && !/^[\w-]+$/.test(alias)) {
+      renderForm(res, 400, "Aliases may only contain letters, digits, - and _.");
+      return;
+    }
+
+    const state = crypto.randomBytes(24).toString("hex");
+    const codeVerifier = crypto.randomBytes(32).toString("base64url");
+    pending.set(state, {
+      codeVerifier,
+      alias: alias || undefined,
+      makeDefault: req.body?.default === "true",
+      expiresAt: Date.now() + STATE_TTL_MS,
+    });
+
+    const url = new URL(GOOGLE_AUTH_URL);
+    url.searchParams.set("client_id", clientId);
+    url.searchParams.set("redirect_uri", redirectUri);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("scope", GOOGLE_SCOPES.join(" "));
+    // offline + consent guarantees Google returns a refresh token even on reconnect
+    url.searchParams.set("access_type", "offline");
+    url.searchParams.set("prompt", "consent select_account");
+    url.searchParams.set("state", state);
+    url.searchParams.set("code_challenge", crypto.createHash("sha256").update(codeVerifier).digest("base64url"));
+    url.searchParams.set("code_challenge_method", "S256");
+    res.redirect(302, url.toString());
+  });
+
+  app.get("/connect/youtube/callback", async (req: any, res: any) => {
+    const { code, state, error } = req.query as Record<string, string>;
+    const flow = state ? pending.get(state) : undefined;
+    if (state) pending.delete(state);
+    if (!flow || flow.expiresAt < Date.now()) {
+      sendPage(res, 400, "Connection failed", `<p>This link has expired. <a href="/connect/youtube">Start again</a>.</p>`);
+      return;
+    }
+    if (error || !code) {
+      sendPage(
+        res,
+        400,
+        "Connection cancelled",
+        `<p>Google returned: <code>${escapeHtml(error ?? "no code")}</code>. <a href="/connect/youtube">Start again</a>.</p>`,
+      );
+      return;
+    }
+
+    try {
+      const tokenRes = await fetch(GOOGLE_TOKEN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          client_id: process.env.YOUTUBE_CLIENT_ID!,
+          client_secret: process.env.YOUTUBE_CLIENT_SECRET!,
+          code,
+          code_verifier: flow.codeVerifier,
+          grant_type: "authorization_code",
+          redirect_uri: redirectUri,
+        }),
+      });
+      if (!tokenRes.ok) {
+        throw new Error(`Google token exchange failed (${tokenRes.status}): ${await tokenRes.text()}`);
+      }
+      const tokens = (await tokenRes.json()) as { access_token: string; refresh_token?: string };
+      if (!tokens.refresh_token) {
+        throw new Error("Google did not return a refresh token. Remove the app's access in your Google account and retry.");
+      }
+
+      // Which channel did the operator pick on Google's account chooser?
+      const meUrl = new URL(`${YT_API}/channels`);
+      meUrl.searchParams.set("part", "snippet");
+      meUrl.searchParams.set("mine", "true");
+      const meRes = await fetch(meUrl.toString(), {
+        headers: { Authorization: `Bearer ${tokens.access_token}` },
+      });
+      if (!meRes.ok) {
+        throw new Error(`channels?mine=true failed (${meRes.status}): ${await meRes.text()}`);
+      }
+      const me = (await meRes.json()) as {
+        items?: { id: string; snippet: { title: string; customUrl?: string } }[];
+      };
+      const channel = me.items?.[0];
+      if (!channel) throw new Error("The authorised Google account has no YouTube channel.");
+
+      const saved = saveChannel({
+        id: channel.id,
+        title: channel.snippet.title,
+        ...(channel.snippet.customUrl && { handle: channel.snippet.customUrl }),
+        ...(flow.alias && { aliases: [flow.alias] }),
+        ...(flow.makeDefault && { default: true }),
+        refreshToken: tokens.refresh_token,
+      });
+      console.error(`[connect] Connected channel ${channelLabel(saved)}`);
+      sendPage(
+        res,
+        200,
+        "Channel connected",
+        `<p><strong>${escapeHtml(channelLabel(saved))}</strong> is connected${saved.default ? " and is the default channel" : ""}.</p>
+<p>Tools can act as it with <code>channel: "${escapeHtml(saved.aliases?.[0] ?? saved.id)}"</code>.</p>`,
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error("[connect] Channel connect failed:", msg);
+      sendPage(res, 502, "Connection failed", `<p class="error">${escapeHtml(msg)}</p><p><a href="/connect/youtube">Start again</a>.</p>`);
+    }
+  });
+}
@@ -1,32 +1,49 @@
 /**
  * Manages YouTube Data API OAuth 2.0 access tokens.
- * Supports multiple channels under the same Google account via per-channel refresh tokens.
+ * Supports multiple channels via the channel registry (see channels.ts) —
+ * each channel maps to its own refresh token.
  *
  * Env vars:
- *   YOUTUBE_REFRESH_TOKEN      — default channel (@outliyr)
- *   YOUTUBE_REFRESH_TOKEN_HPL  — High Performance Longevity channel
  *   YOUTUBE_CLIENT_ID, YOUTUBE_CLIENT_SECRET — shared OAuth app credentials
- *
- * Channel mapping:
- *   UCYD_-2jbMxu0Lp65IlcGf5w → YOUTUBE_REFRESH_TOKEN_HPL
- *   anything else (or omitted) → YOUTUBE_REFRESH_TOKEN
+ *   YOUTUBE_CHANNELS / DATA_DIR/channels.json — channel registry
+ *   YOUTUBE_REFRESH_TOKEN, YOUTUBE_REFRESH_TOKEN_HPL — legacy, still honoured
  */
 
+import {
+  resolveChannel,
+  channelRefreshToken,
+  channelLabel,
+  listChannels,
+  isChannelDisconnected,
+  markChannelDisconnected,
+  type ChannelConfig,
+} from "./channels.js";
+import { ChannelDisconnectedError } from "./errors.js";
+import { sendAlert, resolveAlert, logAlertError } from "./alerts.js";
+import { counter, countedFetch } from "./metrics.js";
+
 interface TokenCache {
   token: string;
+  fetchedAt: number;
   expiresAt: number;
 }
 
-const HPL_CHANNEL_ID = "UCYD_-2jbMxu0Lp65IlcGf5w";
-
 /** Per-refresh-token cache keyed by the refresh token itself */
 const tokenCacheMap = new Map<string, TokenCache>();
 
+/** In-flight refreshes keyed by refresh token, so concurrent callers share one request */
+const inflightRefreshes = new Map<string, Promise<string>>();
+
+const tokenRefreshes = counter(
+  "youtube_token_refreshes_total",
+  "Google access-token refreshes by outcome (ok, invalid_grant, error)",
+);
+
 /**
- * Returns the refresh token for a given channel ID.
- * Falls back to default if no channel-specific token is configured.
+ * Returns the channel and its refresh token for a channel reference (ID, @handle or alias).
+ * Omitting the reference selects the default channel.
  */
-function getRefreshTokenForChannel(channelId?: string): string {
+function getRefreshTokenForChannel(channel?: string): { entry: ChannelConfig; refreshToken: string } {
   const clientId = process.env.YOUTUBE_CLIENT_ID;
   const clientSecret = process.env.YOUTUBE_CLIENT_SECRET;
   if (!clientId || !clientSecret) {
@@ -36,58 +53,162 @@ function getRefreshTokenForChannel(channelId?: string): string {
     );
   }
 
-  if (channelId === HPL_CHANNEL_ID) {
-    const hplToken = process.env.YOUTUBE_REFRESH_TOKEN_HPL;
-    if (hplToken) return hplToken;
-    // Fall through to default if HPL token not yet configured
-  }
-
-  const defaultToken = process.env.YOUTUBE_REFRESH_TOKEN;
-  if (!defaultToken) {
+  const entry = resolveChannel(channel);
+  const refreshToken = channelRefreshToken(entry);
+  if (!refreshToken) {
     throw new Error(
-      "YouTube OAuth credentials not configured. Set YOUTUBE_REFRESH_TOKEN env var."
+      `No refresh token configured for channel ${channelLabel(entry)}. ` +
+        "Add one to the channel registry."
     );
   }
-  return defaultToken;
+  return { entry, refreshToken };
+}
+
+/**
+ * Human-readable labels for the channels that currently have a refresh token configured.
+ */
+export function listConfiguredChannels(): string[] {
+  return listChannels()
+    .filter((c) => channelRefreshToken(c))
+    .map((c) => channelLabel(c) + (c.default ? " — default" : ""));
 }
 
 /**
  * Get an access token, optionally for a specific channel.
- * @param channelId — pass a channel ID to use that channel's refresh token
+ * @param channel — channel ID, @handle or alias (e.g. "hpl") to use that channel's refresh token
  */
-export async function getYouTubeAccessToken(channelId?: string): Promise<string> {
-  const refreshToken = getRefreshTokenForChannel(channelId);
-  const now = Date.now();
+export async function getYouTubeAccessToken(channel?: string): Promise<string> {
+  const { entry, refreshToken } = getRefreshTokenForChannel(channel);
+
+  // Don't keep hitting Google with a token it has already rejected
+  if (isChannelDisconnected(entry)) {
+    throw new ChannelDisconnectedError(channelLabel(entry));
+  }
 
   // Check cache for this specific refresh token
   const cached = tokenCacheMap.get(refreshToken);
-  if (cached && cached.expiresAt - 5 * 60 * 1000 > now) {
+  if (cached && cached.expiresAt - 5 * 60 * 1000 > Date.now()) {
     return cached.token;
   }
 
+  return refreshOnce(entry, refreshToken);
+}
+
+/** Refresh, joining a refresh of the same token that is already in flight. */
+function refreshOnce(entry: ChannelConfig, refreshToken: string): Promise<string> {
+  let inflight = inflightRefreshes.get(refreshToken);
+  if (!inflight) {
+    inflight = refreshAccessToken(entry, refreshToken).finally(() => {
+      inflightRefreshes.delete(refreshToken);
+    });
+    inflightRefreshes.set(refreshToken, inflight);
+  }
+  return inflight;
+}
+
+/**
+ * Mint a fresh access token for a channel, bypassing the cache, to prove its
+ * refresh token still works. Token refreshes cost no API quota. The new token
+ * is thrown away, so checking does not replace the one tools are using.
+ */
+export async function verifyChannelToken(channel: ChannelConfig): Promise<void> {
+  const refreshToken = channelRefreshToken(channel);
+  if (!refreshToken) throw new Error(`No refresh token configured for channel ${channelLabel(channel)}`);
+  if (isChannelDisconnected(channel)) throw new ChannelDisconnectedError(channelLabel(channel));
+  // A refresh already under way proves the same thing
+  await (inflightRefreshes.get(refreshToken) ?? refreshAccessToken(channel, refreshToken, false));
+}
+
+export interface TokenCacheStats {
+  channel: string;
+  cached: boolean;
+  ageSeconds?: number;
+  expiresInSeconds?: number;
+}
+
+/** Age and remaining lifetime of each channel's cached access token. */
+export function tokenCacheStats(): TokenCacheStats[] {
+  const now = Date.now();
+  return listChannels()
+    .filter((c) => channelRefreshToken(c))
+    .map((c) => {
+      const cached = tokenCacheMap.get(channelRefreshToken(c)!);
+      return cached
+        ? {
+            channel: channelLabel(c),
+            cached: true,
+            ageSeconds: Math.round((now - cached.fetchedAt) / 1000),
+            expiresInSeconds: Math.round((cached.expiresAt - now) / 1000),
+          }
+        : { channel: channelLabel(c), cached: false };
+    });
+}
+
+async function refreshAccessToken(entry: ChannelConfig, refreshToken: string, cache = true): Promise<string> {
+  const now = Date.now();
   const clientId = process.env.YOUTUBE_CLIENT_ID!;
   const clientSecret = process.env.YOUTUBE_CLIENT_SECRET!;
 
-  const res = await fetch("https://oauth2.googleapis.com/token", {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    }),
-  });
+  const label = channelLabel(entry);
+  let res: Response;
+  try {
+    res = await countedFetch("https://oauth2.googleapis.com/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: refreshToken,
+        grant_type: "refresh_token",
+      }),
+    });
+  } catch (err) {
+    tokenRefreshes.inc({ outcome: "error" });
+    const message = `YouTube token refresh failed: ${err instanceof Error ? err.message : err}`;
+    sendAlert({ event: "token_refresh_failed", severity: "warning", source: `channel:${label}`, message }).catch(logAlertError);
+    throw new Error(message);
+  }
 
   if (!res.ok) {
     const body = await res.text();
-    throw new Error(`YouTube token refresh failed (${res.status}): ${body}`);
+    // invalid_grant = the refresh token was revoked or expired; nothing but a reconnect fixes it
+    if (res.status === 400 && parseOAuthError(body) === "invalid_grant") {
+      tokenRefreshes.inc({ outcome: "invalid_grant" });
+      tokenCacheMap.delete(refreshToken);
+      if (markChannelDisconnected(entry, body)) {
+        console.error(`[youtube-token] Channel ${label} disconnected: refresh token rejected`);
+        sendAlert({
+          event: "channel_disconnected",
+          severity: "critical",
+          source: `channel:${label}`,
+          message: "Refresh token revoked or expired (invalid_grant). Reconnect at /connect/youtube.",
+        }).catch(logAlertError);
+      }
+      throw new ChannelDisconnectedError(label);
+    }
+    tokenRefreshes.inc({ outcome: "error" });
+    const message = `YouTube token refresh failed (${res.status}): ${body}`;
+    sendAlert({ event: "token_refresh_failed", severity: "warning", source: `channel:${label}`, message }).catch(logAlertError);
+    throw new Error(message);
   }
 
   const data = (await res.json()) as { access_token: string; expires_in: number };
-  tokenCacheMap.set(refreshToken, {
-    token: data.access_token,
-    expiresAt: now + data.expires_in * 1000,
-  });
+  tokenRefreshes.inc({ outcome: "ok" });
+  resolveAlert(`channel:${label}`, "Access token refreshed successfully again").catch(logAlertError);
+  if (cache) {
+    tokenCacheMap.set(refreshToken, {
+      token: data.access_token,
+      fetchedAt: now,
+      expiresAt: now + data.expires_in * 1000,
+    });
+  }
   return data.access_token;
 }
+
+function parseOAuthError(body: string): string | undefined {
+  try {
+    return (JSON.parse(body) as { error?: string }).error;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), "cache-"));
+process.env.YOUTUBE_CACHE = "disk";
+const CACHE_DIR = join(process.env.DATA_DIR, "cache");
+
+let requests = 0;
+globalThis.fetch = (async (url: string | URL | Request) => {
+  requests += 1;
+  return new Response(JSON.stringify({ url: String(url), n: requests }), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}) as typeof fetch;
+
+const { cachedFetch, settleCacheWrites } = await import("../src/cache.js");
+
+const url = (id: string) => `https://www.googleapis.com/youtube/v3/videos?part=id&id=${id}&key=secret`;
+
+test("disk entries survive hits and re-stores", async () => {
+  await (await cachedFetch(url("a"))).text();
+  await settleCacheWrites();
+  assert.equal(readdirSync(CACHE_DIR).length, 1);
+
+  // A hit only moves the entry within the LRU order
+  const hit = (await (await cachedFetch(url("a"))).json()) as { n: number };
+  assert.equal(hit.n, 1);
+  await settleCacheWrites();
+  assert.equal(readdirSync(CACHE_DIR).length, 1);
+
+  // Storing many entries back to back, and one of them twice, loses none
+  for (let i = 0; i < 40; i++) await (await cachedFetch(url(`b${i}`))).text();
+  await (await cachedFetch(url("b0"))).text();
+  await settleCacheWrites();
+  assert.equal(readdirSync(CACHE_DIR).length, 41);
+  // Keys are kept out of cache files
+  assert.ok(!readdirSync(CACHE_DIR).some((f) => f.includes("secret")));
+});
+
+test("a fresh process loads the disk cache", async () => {
+  const before = requests;
+  // A query string makes the module load again, as it would at startup
+  const specifier = "../src/cache.js?reload";
+  const reloaded = (await import(specifier)) as typeof import("../src/cache.js");
+  const body = (await (await reloaded.cachedFetch(url("b7"))).json()) as { url: string };
+  assert.equal(requests, before);
+  assert.match(body.url, /id=b7/);
+});
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), "channels-"));
+process.env.YOUTUBE_REFRESH_TOKEN = "default-token";
+process.env.YOUTUBE_REFRESH_TOKEN_HPL = "hpl-token-1";
+
+type Channels = typeof import("../src/channels.js");
+
+/** Load the module again, as a restart would */
+let loads = 0;
+async function load(): Promise<Channels> {
+  const specifier = `../src/channels.js?load=${loads++}`;
+  return (await import(specifier)) as Channels;
+}
+
+test("a disconnected env-only channel keeps its registry entry across restarts", async () => {
+  const first = await load();
+  const hpl = first.resolveChannel("hpl");
+  assert.equal(first.markChannelDisconnected(hpl, "invalid_grant"), true);
+  assert.equal(first.markChannelDisconnected(hpl, "invalid_grant"), false);
+  assert.equal(first.isChannelDisconnected(first.resolveChannel()), false);
+
+  const restarted = await load();
+  const reloaded = restarted.resolveChannel("hpl");
+  assert.equal(reloaded.refreshTokenEnv, "YOUTUBE_REFRESH_TOKEN_HPL");
+  assert.equal(reloaded.title, "High Performance Longevity");
+  assert.equal(restarted.isChannelDisconnected(reloaded), true);
+  assert.equal(restarted.channelDisconnect(reloaded)?.reason, "invalid_grant");
+});
+
+test("a new env token clears the disconnected state", async () => {
+  process.env.YOUTUBE_REFRESH_TOKEN_HPL = "hpl-token-2";
+  const channels = await load();
+  assert.equal(channels.isChannelDisconnected(channels.resolveChannel("hpl")), false);
+});
+
+test("a registry entry for a legacy channel's ID only overrides the fields it sets", async () => {
+  const { writeSecretFile } = await import("../src/secret-store.js");
+  writeSecretFile(join(process.env.DATA_DIR!, "channels.json"), [
+    { id: "UCYD_-2jbMxu0Lp65IlcGf5w", aliases: ["longevity"], default: false },
+  ]);
+
+  const channels = await load();
+  const hpl = channels.resolveChannel("longevity");
+  assert.equal(channels.resolveChannel("hpl"), hpl);
+  assert.equal(hpl.refreshTokenEnv, "YOUTUBE_REFRESH_TOKEN_HPL");
+  assert.equal(channels.resolveChannel().refreshTokenEnv, "YOUTUBE_REFRESH_TOKEN");
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), "oauth-tokens-"));
+process.env.DATA_ENCRYPTION_KEY = "test-key";
+const {
+  issueTokenPair,
+  issueAccessToken,
+  findAccessToken,
+  rotateRefreshToken,
+  inspectToken,
+  listTokens,
+  revokeToken,
+  revokeGrant,
+  isGrantActive,
+} = await import("../src/oauth-tokens.js");
+
+test("rotating a refresh token issues a new pair on the same grant and retires the old one", () => {
+  const first = issueTokenPair("client-a", ["youtube:read"]);
+  const grantId = findAccessToken(first.access_token)!.grantId;
+
+  const second = rotateRefreshToken(first.refresh_token, "client-a")!;
+  assert.ok(second);
+  assert.notEqual(second.refresh_token, first.refresh_token);
+  assert.equal(findAccessToken(second.access_token)?.grantId, grantId);
+  assert.equal(findAccessToken(first.access_token), undefined);
+  assert.equal(inspectToken(first.refresh_token), undefined);
+});
+
+test("replaying a rotated refresh token revokes the whole grant", () => {
+  const first = issueTokenPair("client-a", ["youtube:read"]);
+  const second = rotateRefreshToken(first.refresh_token, "client-a")!;
+
+  assert.equal(rotateRefreshToken(first.refresh_token, "client-a"), undefined);
+  assert.equal(findAccessToken(second.access_token), undefined);
+  assert.equal(rotateRefreshToken(second.refresh_token, "client-a"), undefined);
+});
+
+test("a refresh token only works for the client it was issued to", () => {
+  const pair = issueTokenPair("client-a", ["youtube:read"]);
+  assert.equal(rotateRefreshToken(pair.refresh_token, "client-b"), undefined);
+  // The failed attempt did not consume it
+  assert.ok(rotateRefreshToken(pair.refresh_token, "client-a"));
+});
+
+test("scopes can be narrowed on refresh but not widened", () => {
+  const pair = issueTokenPair("client-a", ["youtube:read", "youtube:comments:write"]);
+  assert.equal(rotateRefreshToken(pair.refresh_token, "client-a", ["youtube:metadata:write"]), undefined);
+
+  const narrowed = rotateRefreshToken(pair.refresh_token, "client-a", ["youtube:read"])!;
+  assert.deepEqual(findAccessToken(narrowed.access_token)?.scopes, ["youtube:read"]);
+});
+
+test("revoking a refresh token drops its access tokens", () => {
+  const pair = issueTokenPair("client-c", ["youtube:read"]);
+  revokeToken(pair.refresh_token);
+  assert.equal(findAccessToken(pair.access_token), undefined);
+  assert.equal(listTokens().filter((t) => t.clientId === "client-c").length, 0);
+});
+
+test("a grant stays active across rotation until it is revoked", () => {
+  const first = issueTokenPair("client-d", ["youtube:read"]);
+  const grantId = findAccessToken(first.access_token)!.grantId;
+  assert.equal(isGrantActive(grantId), true);
+
+  rotateRefreshToken(first.refresh_token, "client-d");
+  assert.equal(isGrantActive(grantId), true);
+
+  revokeGrant(grantId);
+  assert.equal(isGrantActive(grantId), false);
+});
+
+test("an access token can be issued without a refresh token", () => {
+  const response = issueAccessToken("client-e", ["youtube:read"]);
+  assert.equal("refresh_token" in response, false);
+  assert.equal(findAccessToken(response.access_token)?.clientId, "client-e");
+  assert.equal(listTokens().filter((t) => t.clientId === "client-e" && t.kind === "refresh").length, 0);
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+process.env.DATA_DIR = mkdtempSync(join(tmpdir(), "quota-"));
+process.env.YOUTUBE_DAILY_QUOTA = "1000";
+process.env.YOUTUBE_QUOTA_HARD_BUDGET = "300";
+const { quotaCost, chargeQuota, quotaUsage, applyQuotaAttribution, pacificDay } = await import("../src/quota.js");
+const { QuotaBudgetError } = await import("../src/errors.js");
+const { registeredTools } = await import("../src/tool-registry.js");
+
+const API = "https://www.googleapis.com/youtube/v3";
+
+test("documented costs, with 1 unit per read and 50 per write otherwise", () => {
+  assert.equal(quotaCost(`${API}/search?part=snippet&q=x`), 100);
+  assert.equal(quotaCost(`${API}/videos?part=snippet&id=a`), 1);
+  assert.equal(quotaCost(`${API}/videos?part=snippet`, "PUT"), 50);
+  assert.equal(quotaCost(`${API}/comments/setModerationStatus?id=a`, "post"), 50);
+  assert.equal(quotaCost(`${API}/captions?part=snippet`, "POST"), 400);
+  assert.equal(quotaCost(`${API}/captions?part=snippet`, "PUT"), 450);
+  assert.equal(quotaCost(`${API}/playlists?part=snippet`, "POST"), 50);
+});
+
+test("Analytics, OAuth and web endpoints are free", () => {
+  assert.equal(quotaCost("https://youtubeanalytics.googleapis.com/v2/reports?ids=channel==MINE"), 0);
+  assert.equal(quotaCost("https://oauth2.googleapis.com/token", "POST"), 0);
+  assert.equal(quotaCost("https://suggestqueries.google.com/complete/search?q=x"), 0);
+});
+
+test("pacificDay uses the quota's Pacific-time day", () => {
+  // 07:59 UTC is still the previous day in Los Angeles
+  assert.equal(pacificDay(new Date("2026-03-02T07:59:00Z")), "2026-03-01");
+  assert.equal(pacificDay(new Date("2026-03-02T08:01:00Z")), "2026-03-02");
+});
+
+test("charges are attributed to the tool, the key and the method", async () => {
+  const server = new McpServer({ name: "test", version: "0" });
+  server.registerTool("searchTool", {}, async () => {
+    chargeQuota(`${API}/search?part=snippet&q=x&key=AIzaABCD1234`);
+    return { content: [] };
+  });
+  applyQuotaAttribution(server);
+  await (registeredTools(server).searchTool.handler as (extra: unknown) => Promise<unknown>)({});
+  chargeQuota(`${API}/comments?part=snippet`, "PUT");
+
+  const [day] = quotaUsage().days;
+  assert.equal(day.units, 150);
+  assert.equal(day.calls, 2);
+  assert.equal(day.remaining, 850);
+  assert.deepEqual(day.byTool, { searchTool: 100, "(none)": 50 });
+  assert.deepEqual(day.byKey, { "key:…1234": 100, oauth: 50 });
+  assert.deepEqual(day.byMethod, { "GET search": 100, "PUT comments": 50 });
+});
+
+test("a call that would cross the hard budget is refused without being charged", () => {
+  chargeQuota(`${API}/search?part=snippet&q=y`);
+  assert.throws(() => chargeQuota(`${API}/search?part=snippet&q=z`), QuotaBudgetError);
+
+  const usage = quotaUsage();
+  assert.equal(usage.hardBudget, 300);
+  assert.equal(usage.days[0].units, 250);
+  // Cheaper calls still fit
+  chargeQuota(`${API}/videos?part=id&id=a`);
+  assert.equal(quotaUsage().days[0].units, 251);
+});
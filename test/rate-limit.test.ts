@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+process.env.MCP_RATE_LIMIT_RPM = "2";
+process.env.MCP_RATE_LIMIT_CONCURRENCY = "1";
+process.env.MCP_RATE_LIMIT_WRITES_PER_HOUR = "1";
+const { takeRequest, applyRateLimits, usageSnapshot } = await import("../src/rate-limit.js");
+const { registeredTools } = await import("../src/tool-registry.js");
+
+const alice = { clientId: "env", grantId: "grant-alice" };
+const bob = { clientId: "env", grantId: "grant-bob" };
+
+/** Call a registered tool's (wrapped) callback the way the SDK does for a tool without an input schema. */
+function call(server: McpServer, name: string): Promise<CallToolResult> {
+  const handler = registeredTools(server)[name].handler as (extra: unknown) => Promise<CallToolResult>;
+  return handler({});
+}
+
+function isLimited(result: CallToolResult): boolean {
+  return !!result.isError && result.content[0].type === "text" && result.content[0].text.startsWith("[RATE LIMITED]");
+}
+
+test("request budgets are per grant, not shared across a client", () => {
+  assert.equal(takeRequest(alice), undefined);
+  assert.equal(takeRequest(alice), undefined);
+  const retryAfter = takeRequest(alice);
+  assert.ok(retryAfter !== undefined && retryAfter > 0 && retryAfter <= 60);
+
+  // Another user of the same client is unaffected
+  assert.equal(takeRequest(bob), undefined);
+});
+
+test("concurrent tool calls are limited per grant", async () => {
+  const servers = [alice, bob].map((caller) => {
+    const server = new McpServer({ name: "test", version: "0" });
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    server.registerTool("slow", { annotations: { readOnlyHint: true } }, async () => {
+      await gate;
+      return { content: [{ type: "text", text: "done" }] };
+    });
+    applyRateLimits(server, caller);
+    return { server, release };
+  });
+  const [a, b] = servers;
+
+  const first = call(a.server, "slow");
+  assert.ok(isLimited(await call(a.server, "slow")));
+  const other = call(b.server, "slow");
+  a.release();
+  b.release();
+  assert.ok(!isLimited(await first));
+  assert.ok(!isLimited(await other));
+});
+
+test("write tools draw on a separate hourly budget", async () => {
+  const caller = { clientId: "env", grantId: "grant-carol" };
+  const server = new McpServer({ name: "test", version: "0" });
+  server.registerTool("write", { annotations: { readOnlyHint: false } }, async () => ({
+    content: [{ type: "text", text: "written" }],
+  }));
+  server.registerTool("read", { annotations: { readOnlyHint: true } }, async () => ({
+    content: [{ type: "text", text: "read" }],
+  }));
+  applyRateLimits(server, caller);
+
+  assert.ok(!isLimited(await call(server, "write")));
+  assert.ok(isLimited(await call(server, "write")));
+  assert.ok(!isLimited(await call(server, "read")));
+
+  const carol = usageSnapshot().tokens.find((t) => t.grantId === "grant-carol");
+  assert.equal(carol?.clientId, "env");
+  assert.equal(carol?.writesLastHour, 1);
+  assert.equal(carol?.rejected, 1);
+});
@@ -0,0 +1,94 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatReport, formatTable, type ReportTable } from "../src/report-format.js";
+
+const report = {
+  columnHeaders: [
+    { name: "country", columnType: "DIMENSION" },
+    { name: "views", columnType: "METRIC" },
+    { name: "estimatedMinutesWatched", columnType: "METRIC" },
+    { name: "averageViewPercentage", columnType: "METRIC" },
+  ],
+  rows: [
+    ["US", 1200, 5400.5, 41.2],
+    ["GB", 300, 1100.0056, 38.9],
+  ],
+};
+
+test("zips columnHeaders and rows into records with a totals row", () => {
+  assert.deepEqual(formatReport(report), {
+    dimensions: ["country"],
+    metrics: ["views", "estimatedMinutesWatched", "averageViewPercentage"],
+    rows: [
+      { country: "US", views: 1200, estimatedMinutesWatched: 5400.5, averageViewPercentage: 41.2 },
+      { country: "GB", views: 300, estimatedMinutesWatched: 1100.0056, averageViewPercentage: 38.9 },
+    ],
+    totals: { views: 1500, estimatedMinutesWatched: 6500.5056, averageViewPercentage: null },
+  });
+});
+
+test("rounds metrics and totals but not dimensions", () => {
+  const table = formatReport(report, { decimals: 1 }) as { rows: unknown[]; totals: unknown };
+  assert.deepEqual(table.rows[1], { country: "GB", views: 300, estimatedMinutesWatched: 1100, averageViewPercentage: 38.9 });
+  assert.deepEqual(table.totals, { views: 1500, estimatedMinutesWatched: 6500.5, averageViewPercentage: null });
+});
+
+test("no totals for a single row, when turned off, or when nothing is additive", () => {
+  const single = { ...report, rows: [report.rows[0]] };
+  assert.equal((formatReport(single) as { totals?: unknown }).totals, undefined);
+  assert.equal((formatReport(report, { totals: false }) as { totals?: unknown }).totals, undefined);
+
+  const averages: ReportTable = {
+    dimensions: ["day"],
+    metrics: ["avgViews"],
+    rows: [
+      { day: "Monday", avgViews: 10 },
+      { day: "Tuesday", avgViews: 12 },
+    ],
+  };
+  assert.equal((formatTable(averages) as { totals?: unknown }).totals, undefined);
+});
+
+test("CSV labels the totals in a column of its own and quotes cells that need it", () => {
+  const csv = formatReport(
+    { ...report, rows: [["US, mainland", 1200, 5400.5, 41.2], ...report.rows.slice(1)] },
+    { format: "csv", decimals: 1 },
+  );
+  assert.equal(
+    csv,
+    [
+      ",country,views,estimatedMinutesWatched,averageViewPercentage",
+      ',"US, mainland",1200,5400.5,41.2',
+      ",GB,300,1100,38.9",
+      "Total,,1500,6500.5,",
+    ].join("\n"),
+  );
+});
+
+test("a fields projection that drops the first dimension keeps the totals labelled", () => {
+  const markdown = formatReport(report, { format: "markdown", fields: "rows(views),totals" });
+  assert.equal(markdown, ["|  | views |", "| --- | ---: |", "|  | 1200 |", "|  | 300 |", "| Total | 1500 |"].join("\n"));
+});
+
+test("a fields projection without totals still gets the totals of the picked metrics", () => {
+  assert.deepEqual(formatReport(report, { fields: "rows(country,views)" }), {
+    rows: [
+      { country: "US", views: 1200 },
+      { country: "GB", views: 300 },
+    ],
+    totals: { views: 1500 },
+  });
+  // Only non-additive metrics picked: nothing to total
+  assert.deepEqual(formatReport(report, { fields: "rows(country,averageViewPercentage)" }), {
+    rows: [
+      { country: "US", averageViewPercentage: 41.2 },
+      { country: "GB", averageViewPercentage: 38.9 },
+    ],
+  });
+});
+
+test("an empty report renders a header or a note instead of failing", () => {
+  const empty = { columnHeaders: report.columnHeaders, rows: [] };
+  assert.equal(formatReport(empty, { format: "csv" }), "country,views,estimatedMinutesWatched,averageViewPercentage");
+  assert.equal(formatReport({}, { format: "markdown" }), "No data for this report.");
+});
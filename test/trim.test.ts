@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import * as z3 from "zod/v3";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { shapeResponse, trimResponse, fieldsParam, applyResponseShaping } from "../src/trim.js";
+
+const response = {
+  kind: "youtube#videoListResponse",
+  etag: "abc",
+  pageInfo: { totalResults: 1 },
+  items: [
+    {
+      id: "v1",
+      snippet: {
+        title: "First",
+        description: "A long description",
+        tags: ["a", "b"],
+        thumbnails: { default: { url: "d" }, medium: { url: "m" }, high: { url: "h" } },
+      },
+      statistics: { viewCount: "10", likeCount: "2" },
+    },
+    {
+      id: "v2",
+      snippet: { title: "Second", description: "", tags: [], thumbnails: { high: { url: "h" } } },
+      statistics: { viewCount: "5", likeCount: "0" },
+    },
+  ],
+};
+
+test("trimResponse strips API noise and keeps only the medium thumbnail", () => {
+  assert.deepEqual(trimResponse(response), {
+    items: [
+      {
+        id: "v1",
+        snippet: { title: "First", description: "A long description", tags: ["a", "b"], thumbnails: { medium: { url: "m" } } },
+        statistics: { viewCount: "10", likeCount: "2" },
+      },
+      {
+        id: "v2",
+        snippet: { title: "Second", description: "", tags: [] },
+        statistics: { viewCount: "5", likeCount: "0" },
+      },
+    ],
+  });
+});
+
+test("a fields mask and the equivalent dotted paths select the same fields", () => {
+  const expected = {
+    items: [
+      { id: "v1", snippet: { title: "First" } },
+      { id: "v2", snippet: { title: "Second" } },
+    ],
+  };
+  assert.deepEqual(shapeResponse(response, { fields: "items(id,snippet/title)" }), expected);
+  assert.deepEqual(shapeResponse(response, { fields: ["items.id", "items.snippet.title"] }), expected);
+});
+
+test("* matches any key and a whole selection covers narrower ones", () => {
+  assert.deepEqual(shapeResponse(response, { fields: "items/statistics/*" }), {
+    items: [{ statistics: { viewCount: "10", likeCount: "2" } }, { statistics: { viewCount: "5", likeCount: "0" } }],
+  });
+  assert.deepEqual(shapeResponse(response, { fields: ["items.statistics", "items.statistics.viewCount"] }), {
+    items: [{ statistics: { viewCount: "10", likeCount: "2" } }, { statistics: { viewCount: "5", likeCount: "0" } }],
+  });
+});
+
+test("fields overrides detail", () => {
+  assert.deepEqual(shapeResponse(response, { fields: "etag", detail: "minimal" }), { etag: "abc" });
+});
+
+test("detail levels for API and computed results", () => {
+  assert.deepEqual(shapeResponse(response, { detail: "full" }), response);
+  assert.deepEqual(shapeResponse(response, { detail: "minimal" }), {
+    items: [
+      { id: "v1", snippet: { title: "First" }, statistics: { viewCount: "10", likeCount: "2" } },
+      { id: "v2", snippet: { title: "Second" }, statistics: { viewCount: "5", likeCount: "0" } },
+    ],
+  });
+  // Computed results have no API noise to strip, so a "kind" field of their own survives
+  const computed = { kind: "summary", description: "long", total: 3 };
+  assert.deepEqual(shapeResponse(computed, {}, "computed"), computed);
+  assert.deepEqual(shapeResponse(computed, { detail: "minimal" }, "computed"), { kind: "summary", total: 3 });
+});
+
+test("malformed fields masks are rejected by the tool argument schema", () => {
+  for (const fields of ["items(id", "items)id", "items(,id)", "a//b", "items()"]) {
+    assert.equal(fieldsParam.safeParse(fields).success, false, fields);
+  }
+  assert.equal(fieldsParam.safeParse("items(id,snippet(title,tags))").success, true);
+});
+
+test("tools registered elsewhere get fields and detail, in zod v4 and v3 schemas", async () => {
+  const server = new McpServer({ name: "test", version: "0" });
+  const seen: unknown[] = [];
+  const reply = (args: unknown): CallToolResult => {
+    seen.push(args);
+    return { content: [{ type: "text", text: JSON.stringify(response) }] };
+  };
+  server.registerTool("v4Tool", { inputSchema: { id: z.string() } }, reply);
+  server.registerTool("v3Tool", { inputSchema: { id: z3.string() } }, reply);
+  applyResponseShaping(server, ["v4Tool", "v3Tool"]);
+
+  const client = new Client({ name: "test", version: "0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+  const { tools } = await client.listTools();
+  for (const tool of tools) assert.ok(tool.inputSchema.properties?.fields && tool.inputSchema.properties?.detail, tool.name);
+
+  for (const name of ["v4Tool", "v3Tool"]) {
+    const result = (await client.callTool({ name, arguments: { id: "v1", fields: "items/id" } })) as CallToolResult;
+    assert.deepEqual(JSON.parse((result.content[0] as { text: string }).text), { items: [{ id: "v1" }, { id: "v2" }] });
+    // Untouched without either argument
+    const plain = (await client.callTool({ name, arguments: { id: "v1" } })) as CallToolResult;
+    assert.deepEqual(JSON.parse((plain.content[0] as { text: string }).text), response);
+
+    const invalid = (await client.callTool({ name, arguments: { id: "v1", fields: "items(" } })) as CallToolResult;
+    assert.equal(invalid.isError, true);
+  }
+  // The wrapped tools never see the arguments they don't know
+  assert.deepEqual(seen, [{ id: "v1" }, { id: "v1" }, { id: "v1" }, { id: "v1" }]);
+  await client.close();
+});